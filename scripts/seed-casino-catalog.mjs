@@ -0,0 +1,32 @@
+// Loads supabase/seed/casino_catalog.json into the casino_catalog table, updating entries
+// that already exist. The table is read-only for users, so this needs the service role key:
+//
+//   SUPABASE_URL=http://127.0.0.1:54321 SUPABASE_SERVICE_ROLE_KEY=... npm run seed:catalog
+//
+// Entries removed from the file are left in the table; tracked casinos may still link to them.
+import { readFile } from 'node:fs/promises';
+import { createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.SUPABASE_URL ?? process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY must be set.');
+  process.exit(1);
+}
+
+const catalogPath = new URL('../supabase/seed/casino_catalog.json', import.meta.url);
+const entries = JSON.parse(await readFile(catalogPath, 'utf8'));
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+
+const { error } = await supabase
+  .from('casino_catalog')
+  .upsert(entries.map(entry => ({ ...entry, updated_at: new Date().toISOString() })), { onConflict: 'id' });
+
+if (error) {
+  console.error('Failed to seed the casino catalog:', error.message);
+  process.exit(1);
+}
+
+console.log(`Seeded ${entries.length} catalog casinos.`);
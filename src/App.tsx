@@ -7,6 +7,9 @@ import { Login } from './pages/Login';
 import Register from './pages/Register';   
 import AddCasino from './pages/AddCasino';   
 import EditCasino from './pages/EditCasino'; 
+import ArchivedCasinos from './pages/ArchivedCasinos';
+import CasinoDetail from './pages/CasinoDetail';
+import Redemptions from './pages/Redemptions';
 import Calculator from './pages/Calculator'; 
 import UploadData from './pages/UploadData'; 
 
@@ -122,6 +125,33 @@ function App() {
               </ProtectedRoute>
             }
           />
+          {/* Casino Detail: Protected Route */}
+          <Route
+            path="/casino/:id"
+            element={
+              <ProtectedRoute session={session}>
+                <CasinoDetail />
+              </ProtectedRoute>
+            }
+          />
+          {/* Archived Casinos (archive and trash): Protected Route */}
+          <Route
+            path="/archived-casinos"
+            element={
+              <ProtectedRoute session={session}>
+                <ArchivedCasinos />
+              </ProtectedRoute>
+            }
+          />
+          {/* Redemptions: Protected Route */}
+          <Route
+            path="/redemptions"
+            element={
+              <ProtectedRoute session={session}>
+                <Redemptions />
+              </ProtectedRoute>
+            }
+          />
           {/* Upload Data: Protected Route */}
           <Route
             path="/upload-data"
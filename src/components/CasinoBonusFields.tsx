@@ -0,0 +1,120 @@
+import React from 'react';
+import { NewCasinoBonusData } from '../lib/supabaseClient';
+import CasinoScheduleFields, {
+  ScheduleFormState,
+  defaultScheduleFormState,
+  scheduleFormStateFromBonus,
+  scheduleFormToScheduleFields,
+  validateScheduleForm,
+} from './CasinoScheduleFields';
+
+// Form state for one casino bonus: AddCasino's first bonus, or a bonus added or edited in EditCasino
+export interface BonusFormState {
+  name: string;
+  schedule: ScheduleFormState;
+  bonusValue: string;
+  includeWeekends: boolean;
+}
+
+export const defaultBonusFormState = (): BonusFormState => ({
+  name: 'Daily Login',
+  schedule: defaultScheduleFormState(),
+  bonusValue: '',
+  includeWeekends: true,
+});
+
+// Works for saved bonuses and for catalog presets alike
+export const bonusFormStateFromBonus = (bonus: NewCasinoBonusData): BonusFormState => ({
+  name: bonus.name,
+  schedule: scheduleFormStateFromBonus(bonus),
+  bonusValue: bonus.bonus_value?.toString() ?? '',
+  includeWeekends: bonus.include_weekends ?? true,
+});
+
+/**
+ * Checks the bonus fields; returns an error message, or null when they are valid.
+ */
+export const validateBonusForm = (bonus: BonusFormState): string | null => {
+  if (!bonus.name.trim()) return 'Bonus Name is required.';
+  const scheduleError = validateScheduleForm(bonus.schedule);
+  if (scheduleError) return scheduleError;
+  if (bonus.bonusValue !== '' && (isNaN(Number(bonus.bonusValue)) || Number(bonus.bonusValue) < 0)) {
+    return 'Bonus Value must be a number of 0 or more.';
+  }
+  return null;
+};
+
+// Converts validated form state into a whole bonus: its name, value and weekend rule plus the schedule fields
+export const bonusFormToBonusData = (bonus: BonusFormState): NewCasinoBonusData => ({
+  name: bonus.name.trim(),
+  ...scheduleFormToScheduleFields(bonus.schedule),
+  bonus_value: bonus.bonusValue === '' ? null : Number(bonus.bonusValue),
+  include_weekends: bonus.includeWeekends,
+});
+
+interface CasinoBonusFieldsProps {
+  bonus: BonusFormState;
+  onChange: (bonus: BonusFormState) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+const CasinoBonusFields: React.FC<CasinoBonusFieldsProps> = ({ bonus, onChange, disabled }) => {
+  const update = (changes: Partial<BonusFormState>) => onChange({ ...bonus, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="bonusName" className="block text-sm font-medium text-gray-700 mb-1">
+          Bonus Name <span className="text-red-500">*</span>
+        </label>
+        <input
+          type="text"
+          id="bonusName"
+          value={bonus.name}
+          onChange={(e) => update({ name: e.target.value })}
+          required
+          disabled={disabled}
+          className={inputClassName}
+          placeholder="e.g., Daily Login, Wheel Spin, Mail-in"
+        />
+      </div>
+
+      <CasinoScheduleFields schedule={bonus.schedule} onChange={(schedule) => update({ schedule })} disabled={disabled} />
+
+      <div>
+        <label htmlFor="bonusValue" className="block text-sm font-medium text-gray-700 mb-1">
+          Bonus Value ($) (Optional)
+        </label>
+        <input
+          type="number"
+          id="bonusValue"
+          value={bonus.bonusValue}
+          onChange={(e) => update({ bonusValue: e.target.value })}
+          min="0"
+          step="0.01"
+          disabled={disabled}
+          className={inputClassName}
+          placeholder="e.g., 5.00"
+        />
+      </div>
+
+      <div className="flex items-center">
+        <input
+          type="checkbox"
+          id="includeWeekends"
+          checked={bonus.includeWeekends}
+          onChange={(e) => update({ includeWeekends: e.target.checked })}
+          disabled={disabled}
+          className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+        />
+        <label htmlFor="includeWeekends" className="ml-2 block text-sm text-gray-700">
+          Bonus can be collected on weekends
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default CasinoBonusFields;
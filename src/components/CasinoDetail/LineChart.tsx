@@ -0,0 +1,63 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { SeriesPoint } from '../../lib/casinoStats';
+
+interface LineChartProps {
+  title: string;
+  points: SeriesPoint[]; // Oldest first
+  formatValue: (value: number) => string;
+  emptyText: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PADDING = 8;
+
+// A small SVG line chart over time: no axes, just the line, a zero line and the range labels
+const LineChart: React.FC<LineChartProps> = ({ title, points, formatValue, emptyText }) => {
+  if (points.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow p-4">
+        <h3 className="text-sm font-medium text-gray-500 mb-1">{title}</h3>
+        <p className="text-gray-500 italic text-sm">{emptyText}</p>
+      </div>
+    );
+  }
+
+  const times = points.map(point => parseISO(point.date).getTime());
+  const values = points.map(point => point.value);
+  const minTime = times[0];
+  const timeSpan = Math.max(times[times.length - 1] - minTime, 1);
+  // Always include zero, so gains and losses read at a glance
+  const minValue = Math.min(0, ...values);
+  const maxValue = Math.max(0, ...values);
+  const valueSpan = Math.max(maxValue - minValue, 1);
+
+  const x = (time: number) => PADDING + ((time - minTime) / timeSpan) * (WIDTH - 2 * PADDING);
+  const y = (value: number) => HEIGHT - PADDING - ((value - minValue) / valueSpan) * (HEIGHT - 2 * PADDING);
+  // A single point is drawn as a flat line across the chart
+  const path = points.length === 1
+    ? `${PADDING},${y(values[0])} ${WIDTH - PADDING},${y(values[0])}`
+    : points.map((_, index) => `${x(times[index])},${y(values[index])}`).join(' ');
+  const last = values[values.length - 1];
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <div className="flex justify-between items-baseline mb-1">
+        <h3 className="text-sm font-medium text-gray-500">{title}</h3>
+        <span className={`text-sm font-semibold ${last < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatValue(last)}</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-40" preserveAspectRatio="none" role="img" aria-label={title}>
+        <line x1={PADDING} x2={WIDTH - PADDING} y1={y(0)} y2={y(0)} className="stroke-gray-200" strokeWidth={1} />
+        <polyline points={path} fill="none" className="stroke-indigo-500" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>{format(parseISO(points[0].date), 'MMM d, yyyy')}</span>
+        <span>{formatValue(minValue)} to {formatValue(maxValue)}</span>
+        <span>{format(parseISO(points[points.length - 1].date), 'MMM d, yyyy')}</span>
+      </div>
+    </div>
+  );
+};
+
+export default LineChart;
@@ -1,9 +1,12 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { FormState } from '../types'; // Import shared FormState type
+import { TrackedCasino } from '../lib/supabaseClient';
+import { describeSchedule, formatDateTimeInput, getBrowserTimeZone, getNextCollectionTime, parseDateTimeInput } from '../lib/collectionSchedule';
 
 // Define props for the component using the correct FormState type
 interface CasinoRewardsFormProps {
   initialData: FormState;
+  trackedCasinos: TrackedCasino[]; // Casinos whose bonuses the calculator can be pointed at
   onSave: (currentFormData: FormState) => Promise<boolean>; // Function to call when saving
   isSaving: boolean; // Flag to indicate if parent is saving
 }
@@ -11,7 +14,7 @@ interface CasinoRewardsFormProps {
 // Define error record based on FormState keys
 type FormErrors = Partial<Record<keyof FormState, string>> & { calculation?: string };
 
-const CasinoRewardsForm: React.FC<CasinoRewardsFormProps> = ({ initialData, onSave, isSaving }) => {
+const CasinoRewardsForm: React.FC<CasinoRewardsFormProps> = ({ initialData, trackedCasinos, onSave, isSaving }) => {
   // Initialize state directly from the initialData prop using FormState
   const [formData, setFormData] = useState<FormState>(initialData);
   const [nextCollectionTime, setNextCollectionTime] = useState<string | null>(null);
@@ -19,6 +22,11 @@ const CasinoRewardsForm: React.FC<CasinoRewardsFormProps> = ({ initialData, onSa
   const [errors, setErrors] = useState<FormErrors>({}); // Use the correctly typed FormErrors
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
 
+  const findBonus = useCallback(
+    (bonusId: string) => trackedCasinos.flatMap(casino => casino.bonuses).find(bonus => bonus.id === bonusId),
+    [trackedCasinos]
+  );
+
   // Update form state when initialData prop changes (e.g., after initial fetch)
   useEffect(() => {
     setFormData(initialData);
@@ -60,8 +68,13 @@ const CasinoRewardsForm: React.FC<CasinoRewardsFormProps> = ({ initialData, onSa
             } catch (ex) {
                 return 'Invalid time zone selected';
             }
+      case 'collection_interval_hours':
+        if (!stringValue) return 'Collection interval is required.';
+        if (isNaN(Number(stringValue)) || Number(stringValue) <= 0) return 'Must be a positive number of hours.';
+        return '';
       case 'include_weekends':
-            return ''; // Boolean value, no string validation needed here
+      case 'casino_bonus_id':
+            return ''; // Boolean value / dropdown choice, no string validation needed here
       default:
         // This should technically be unreachable if all keys are handled.
         // Removing the `never` assignment to resolve the persistent lint error.
@@ -97,6 +110,30 @@ const CasinoRewardsForm: React.FC<CasinoRewardsFormProps> = ({ initialData, onSa
     setSaveStatus('idle'); // Reset save status if user changes data
   };
 
+  // Pointing the calculator at a tracked bonus copies that bonus's schedule and value
+  const handleBonusChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const bonus = findBonus(e.target.value);
+
+    setFormData(prev => {
+      if (!bonus) return { ...prev, casino_bonus_id: '' };
+      return {
+        ...prev,
+        casino_bonus_id: bonus.id,
+        collection_interval_hours: bonus.collection_interval_hours.toString(),
+        include_weekends: bonus.include_weekends,
+        expected_reward: bonus.bonus_value?.toString() ?? prev.expected_reward,
+        last_collection_time: bonus.last_collected_at
+          ? formatDateTimeInput(bonus.last_collected_at, prev.time_zone || getBrowserTimeZone())
+          : prev.last_collection_time,
+      };
+    });
+
+    setErrors({});
+    setNextCollectionTime(null);
+    setNetReward(null);
+    setSaveStatus('idle');
+  };
+
   const runAllValidations = useCallback((): boolean => {
       const newErrors: FormErrors = {};
       let hasErrors = false;
@@ -123,31 +160,25 @@ const CasinoRewardsForm: React.FC<CasinoRewardsFormProps> = ({ initialData, onSa
   }, [formData]);
 
   const calculateNextCollection = useCallback(() => {
-    const { last_collection_time, time_zone, include_weekends } = formData;
+    const { last_collection_time, time_zone, include_weekends, collection_interval_hours } = formData;
     // Add validation check within calculation as well
-    if (!last_collection_time || !time_zone || validateField('last_collection_time', last_collection_time) || validateField('time_zone', time_zone)) {
-        setErrors(prev => ({ ...prev, calculation: "Missing or invalid required fields for calculation (Time, Timezone)." }));
+    if (!last_collection_time || !time_zone || validateField('last_collection_time', last_collection_time) || validateField('time_zone', time_zone) || validateField('collection_interval_hours', collection_interval_hours)) {
+        setErrors(prev => ({ ...prev, calculation: "Missing or invalid required fields for calculation (Time, Timezone, Interval)." }));
         return null;
     }
 
     try {
-        // Parse the datetime-local string. It represents local time.
-        const lastCollectionDate = new Date(last_collection_time);
-        if (isNaN(lastCollectionDate.getTime())) throw new Error("Invalid Date format from input");
-
-        let nextCollectionDate = new Date(lastCollectionDate);
-
-        const hoursToAdd = 24; // Assuming a 24-hour cycle
-        nextCollectionDate.setHours(nextCollectionDate.getHours() + hoursToAdd);
-
-        if (!include_weekends) {
-            let dayOfWeek = nextCollectionDate.getDay(); // 0 = Sunday, 6 = Saturday
-            // Adjust forward past Saturday and Sunday
-            while (dayOfWeek === 6 || dayOfWeek === 0) { 
-                nextCollectionDate.setDate(nextCollectionDate.getDate() + 1);
-                dayOfWeek = nextCollectionDate.getDay();
-            }
-        }
+        // Parse the datetime-local string as wall-clock time in the selected zone
+        const lastCollectionDate = parseDateTimeInput(last_collection_time, time_zone);
+        if (!lastCollectionDate) throw new Error("Invalid Date format from input");
+
+        // Same schedule rule the dashboard uses for tracked bonuses. Fixed daily/weekly
+        // resets come from the bonus; rolling intervals use the (editable) form value.
+        const bonus = findBonus(formData.casino_bonus_id);
+        const rule = bonus && bonus.schedule_type !== 'interval'
+            ? { ...bonus, include_weekends }
+            : { collection_interval_hours: Number(collection_interval_hours), include_weekends };
+        const nextCollectionDate = getNextCollectionTime(rule, lastCollectionDate, time_zone);
 
         // Format the output using the specified timezone
         const options: Intl.DateTimeFormatOptions = {
@@ -164,7 +195,7 @@ const CasinoRewardsForm: React.FC<CasinoRewardsFormProps> = ({ initialData, onSa
         setErrors(prev => ({ ...prev, calculation: `Calculation Error: ${error.message || "Check date/time inputs."}` }));
         return null;
     }
-  }, [formData]);
+  }, [formData, findBonus]);
 
   const calculateNetReward = useCallback((): number | null => {
     const { expected_reward, tax_rate, cc_return, interest_rate } = formData;
@@ -231,6 +262,9 @@ const CasinoRewardsForm: React.FC<CasinoRewardsFormProps> = ({ initialData, onSa
   []);
 
   const isDisabled = isSaving || saveStatus === 'saving';
+  // A bonus with a fixed daily/weekly reset ignores the interval field
+  const selectedBonus = findBonus(formData.casino_bonus_id);
+  const fixedScheduleBonus = selectedBonus && selectedBonus.schedule_type !== 'interval' ? selectedBonus : undefined;
 
   return (
     // Use onSubmit on the form for accessibility (Enter key)
@@ -238,6 +272,29 @@ const CasinoRewardsForm: React.FC<CasinoRewardsFormProps> = ({ initialData, onSa
     <form onSubmit={(e) => { e.preventDefault(); handleCalculate(e as any); }} noValidate className="bg-gray-800 text-white p-6 rounded-lg shadow-xl space-y-4 md:space-y-0 md:grid md:grid-cols-2 md:gap-6">
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Tracked Casino */}
+        <div className="md:col-span-2">
+          <label htmlFor="casino_bonus_id" className="block text-sm font-medium text-gray-300">Casino Bonus</label>
+          <select
+            id="casino_bonus_id"
+            name="casino_bonus_id" // Matches FormState key
+            value={formData.casino_bonus_id}
+            onChange={handleBonusChange}
+            disabled={isDisabled}
+            className={`mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm ${isDisabled ? 'cursor-not-allowed opacity-50' : ''}`}
+          >
+            <option value="">-- No tracked casino (enter values manually) --</option>
+            {trackedCasinos.filter(casino => casino.bonuses.length > 0).map(casino => (
+              <optgroup key={casino.id} label={casino.casino_name}>
+                {casino.bonuses.map(bonus => (
+                  <option key={bonus.id} value={bonus.id}>{casino.casino_name} – {bonus.name}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-400">Choosing a bonus fills in its collection interval, value and weekend rule.</p>
+        </div>
+
         {/* Last Collection Time */}
         <div className="col-span-1">
           <label htmlFor="last_collection_time" className="block text-sm font-medium text-gray-300">Last Collection Time <span className="text-red-500">*</span></label>
@@ -254,6 +311,27 @@ const CasinoRewardsForm: React.FC<CasinoRewardsFormProps> = ({ initialData, onSa
           {errors.last_collection_time && <p className="mt-1 text-xs text-red-400">{errors.last_collection_time}</p>}
         </div>
 
+        {/* Collection Interval */}
+        <div className="col-span-1">
+          <label htmlFor="collection_interval_hours" className="block text-sm font-medium text-gray-300">Collection Interval (hours) <span className="text-red-500">*</span></label>
+          <input
+            type="number"
+            id="collection_interval_hours"
+            name="collection_interval_hours" // Matches FormState key
+            value={formData.collection_interval_hours}
+            onChange={handleInputChange}
+            disabled={isDisabled}
+            min="0.1"
+            step="any"
+            placeholder="e.g., 24"
+            className={`mt-1 block w-full bg-gray-700 border ${errors.collection_interval_hours ? 'border-red-500' : 'border-gray-600'} rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm ${isDisabled ? 'cursor-not-allowed opacity-50' : ''}`}
+          />
+          {errors.collection_interval_hours && <p className="mt-1 text-xs text-red-400">{errors.collection_interval_hours}</p>}
+          {fixedScheduleBonus && (
+            <p className="mt-1 text-xs text-gray-400">Not used: this bonus resets on a fixed schedule ({describeSchedule(fixedScheduleBonus)}).</p>
+          )}
+        </div>
+
         {/* Expected Reward */}
         <div className="col-span-1">
           <label htmlFor="expected_reward" className="block text-sm font-medium text-gray-300">Expected Reward ($)</label>
@@ -0,0 +1,190 @@
+import React from 'react';
+import { NewCasinoBonusData } from '../lib/supabaseClient';
+import { ScheduleType, WEEKDAY_LABELS, getBrowserTimeZone, parseResetTime } from '../lib/collectionSchedule';
+
+// Form state for a bonus's collection schedule, edited as part of CasinoBonusFields
+export interface ScheduleFormState {
+  scheduleType: ScheduleType;
+  interval: string; // Hours, for 'interval' schedules
+  resetTime: string; // 'HH:MM', for 'daily' and 'weekly' schedules
+  resetTimeZone: string;
+  resetDays: number[]; // 'weekly' only, 0 = Sunday
+}
+
+type ScheduleFields = Pick<NewCasinoBonusData, 'schedule_type' | 'collection_interval_hours' | 'reset_time' | 'reset_time_zone' | 'reset_days'>;
+
+const DEFAULT_INTERVAL_HOURS = 24;
+
+export const defaultScheduleFormState = (): ScheduleFormState => ({
+  scheduleType: 'interval',
+  interval: '',
+  resetTime: '00:00',
+  resetTimeZone: getBrowserTimeZone(),
+  resetDays: [],
+});
+
+export const scheduleFormStateFromBonus = (bonus: ScheduleFields): ScheduleFormState => ({
+  scheduleType: bonus.schedule_type ?? 'interval',
+  interval: bonus.collection_interval_hours.toString(),
+  resetTime: bonus.reset_time?.slice(0, 5) ?? '00:00', // Postgres returns 'HH:MM:SS'
+  resetTimeZone: bonus.reset_time_zone ?? getBrowserTimeZone(),
+  resetDays: bonus.reset_days ?? [],
+});
+
+/**
+ * Checks the schedule fields; returns an error message, or null when they are valid.
+ */
+export const validateScheduleForm = (schedule: ScheduleFormState): string | null => {
+  if (schedule.scheduleType === 'interval') {
+    const hours = parseFloat(schedule.interval);
+    return isNaN(hours) || hours <= 0 ? 'Please enter a valid positive number for collection interval in hours.' : null;
+  }
+  if (!parseResetTime(schedule.resetTime)) return 'Please enter the time the bonus resets.';
+  if (!schedule.resetTimeZone) return 'Please choose the time zone the reset time is in.';
+  if (schedule.scheduleType === 'weekly' && schedule.resetDays.length === 0) {
+    return 'Please choose at least one day the bonus resets.';
+  }
+  return null;
+};
+
+// Converts validated form state into the schedule columns only: type, interval, reset time, zone and days
+export const scheduleFormToScheduleFields = (schedule: ScheduleFormState): ScheduleFields => {
+  const hours = parseFloat(schedule.interval);
+  const isInterval = schedule.scheduleType === 'interval';
+  return {
+    schedule_type: schedule.scheduleType,
+    // Fixed schedules don't use the interval, but the column is required
+    collection_interval_hours: isNaN(hours) || hours <= 0 ? DEFAULT_INTERVAL_HOURS : hours,
+    reset_time: isInterval ? null : schedule.resetTime,
+    reset_time_zone: isInterval ? null : schedule.resetTimeZone,
+    reset_days: schedule.scheduleType === 'weekly' ? [...schedule.resetDays].sort((a, b) => a - b) : null,
+  };
+};
+
+interface CasinoScheduleFieldsProps {
+  schedule: ScheduleFormState;
+  onChange: (schedule: ScheduleFormState) => void;
+  disabled?: boolean;
+}
+
+const scheduleTypeOptions: { value: ScheduleType; label: string }[] = [
+  { value: 'interval', label: 'Rolling timer after each collection' },
+  { value: 'daily', label: 'Resets daily at a fixed time' },
+  { value: 'weekly', label: 'Resets on certain days of the week' },
+];
+
+const inputClassName = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+const CasinoScheduleFields: React.FC<CasinoScheduleFieldsProps> = ({ schedule, onChange, disabled }) => {
+  const update = (changes: Partial<ScheduleFormState>) => onChange({ ...schedule, ...changes });
+
+  const toggleDay = (day: number) => {
+    update({
+      resetDays: schedule.resetDays.includes(day)
+        ? schedule.resetDays.filter(d => d !== day)
+        : [...schedule.resetDays, day],
+    });
+  };
+
+  // Memoize time zone options to prevent re-computation on every render
+  const timeZoneOptions = React.useMemo(() =>
+      Intl.supportedValuesOf('timeZone').map(tz => (
+          <option key={tz} value={tz}>{tz}</option>
+      )),
+  []);
+
+  return (
+    <fieldset className="space-y-3" disabled={disabled}>
+      <legend className="block text-sm font-medium text-gray-700 mb-1">
+        Collection Schedule <span className="text-red-500">*</span>
+      </legend>
+      {scheduleTypeOptions.map(option => (
+        <label key={option.value} className="flex items-center text-sm text-gray-700">
+          <input
+            type="radio"
+            name="scheduleType"
+            value={option.value}
+            checked={schedule.scheduleType === option.value}
+            onChange={() => update({ scheduleType: option.value })}
+            className="mr-2"
+          />
+          {option.label}
+        </label>
+      ))}
+
+      {schedule.scheduleType === 'interval' ? (
+        <div>
+          <label htmlFor="interval" className="block text-sm font-medium text-gray-700 mb-1">
+            Collection Interval (hours) <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="number"
+            id="interval"
+            value={schedule.interval}
+            onChange={(e) => update({ interval: e.target.value })}
+            required
+            min="0.1"
+            step="any"
+            className={inputClassName}
+            placeholder="e.g., 24 (for daily)"
+          />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="resetTime" className="block text-sm font-medium text-gray-700 mb-1">
+                Reset Time <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="time"
+                id="resetTime"
+                value={schedule.resetTime}
+                onChange={(e) => update({ resetTime: e.target.value })}
+                required
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="resetTimeZone" className="block text-sm font-medium text-gray-700 mb-1">
+                Reset Time Zone <span className="text-red-500">*</span>
+              </label>
+              <select
+                id="resetTimeZone"
+                value={schedule.resetTimeZone}
+                onChange={(e) => update({ resetTimeZone: e.target.value })}
+                required
+                className={inputClassName}
+              >
+                <option value="">-- Select Time Zone --</option>
+                {timeZoneOptions}
+              </select>
+            </div>
+          </div>
+          {schedule.scheduleType === 'weekly' && (
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">
+                Reset Days <span className="text-red-500">*</span>
+              </span>
+              <div className="flex flex-wrap gap-3">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <label key={label} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={schedule.resetDays.includes(day)}
+                      onChange={() => toggleDay(day)}
+                      className="mr-1 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </fieldset>
+  );
+};
+
+export default CasinoScheduleFields;
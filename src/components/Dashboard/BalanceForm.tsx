@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { BalanceEntryKind, BALANCE_ENTRY_LABELS, NewBalanceEntry, VirtualBalances } from '../../lib/supabaseClient';
+
+interface BalanceFormProps {
+  balances: VirtualBalances; // The casino's current balances, the starting point for "Set balance"
+  onSubmit: (entry: NewBalanceEntry) => Promise<void>;
+  onClose: () => void;
+}
+
+// Field labels per kind; amounts are entered as the user sees them and signed on submit
+const FIELD_LABELS: Record<BalanceEntryKind, { sc: string; gc: string; usd: string | null }> = {
+  purchase: { sc: 'Sweeps Coins received', gc: 'Gold Coins received', usd: 'Paid ($)' },
+  wager: { sc: 'SC won or lost (-)', gc: 'GC won or lost (-)', usd: null },
+  adjustment: { sc: 'Sweeps Coins balance', gc: 'Gold Coins balance', usd: null },
+};
+
+const inputClassName = 'mt-1 block w-28 px-2 py-1 border border-gray-300 rounded text-sm';
+
+// Inline form for a purchase, wager result or balance correction at one casino; redemptions
+// have their own page
+const BalanceForm: React.FC<BalanceFormProps> = ({ balances, onSubmit, onClose }) => {
+  const [kind, setKind] = useState<BalanceEntryKind>('purchase');
+  const [sc, setSc] = useState('');
+  const [gc, setGc] = useState('');
+  const [usd, setUsd] = useState('');
+  const [multiplier, setMultiplier] = useState(''); // Purchases only; '' means no playthrough
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const labels = FIELD_LABELS[kind];
+
+  const handleKindChange = (nextKind: BalanceEntryKind) => {
+    setKind(nextKind);
+    setError(null);
+    // Corrections start from what the app thinks the balances are
+    setSc(nextKind === 'adjustment' ? balances.SC.toString() : '');
+    setGc(nextKind === 'adjustment' ? balances.GC.toString() : '');
+    setUsd('');
+    setMultiplier('');
+  };
+
+  // '' counts as 0; returns null for anything that isn't a number
+  const readNumber = (value: string): number | null => {
+    if (value.trim() === '') return 0;
+    const number = Number(value);
+    return isNaN(number) ? null : number;
+  };
+
+  const buildEntry = (): NewBalanceEntry | string => {
+    const scValue = readNumber(sc);
+    const gcValue = readNumber(gc);
+    const usdValue = readNumber(usd);
+    if (scValue === null || gcValue === null || usdValue === null) return 'Amounts must be numbers.';
+    if (kind !== 'wager' && (scValue < 0 || gcValue < 0 || usdValue < 0)) return 'Amounts must be 0 or more.';
+    const multiplierValue = kind === 'purchase' && multiplier.trim() !== '' ? Number(multiplier) : null;
+    if (multiplierValue !== null && (isNaN(multiplierValue) || multiplierValue <= 0)) return 'Playthrough must be a number above 0.';
+
+    const entry: NewBalanceEntry = { kind, sc_delta: 0, gc_delta: 0, usd_amount: usdValue || null, playthrough_multiplier: multiplierValue, note };
+    switch (kind) {
+      case 'purchase':
+      case 'wager':
+        entry.sc_delta = scValue;
+        entry.gc_delta = gcValue;
+        break;
+      case 'adjustment':
+        entry.sc_delta = scValue - balances.SC;
+        entry.gc_delta = gcValue - balances.GC;
+        break;
+    }
+    if (entry.sc_delta === 0 && entry.gc_delta === 0 && !entry.usd_amount) return 'Nothing to record.';
+    return entry;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const entry = buildEntry();
+    if (typeof entry === 'string') {
+      setError(entry);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit(entry);
+      onClose();
+    } catch (err: any) {
+      console.error('Balance Error:', err);
+      setError(err.message || 'Failed to update balance.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-2 p-3 bg-gray-50 rounded flex flex-wrap items-end gap-2">
+      <label className="text-xs text-gray-600">
+        Type
+        <select
+          value={kind}
+          onChange={(e) => handleKindChange(e.target.value as BalanceEntryKind)}
+          className="mt-1 block px-2 py-1 border border-gray-300 rounded text-sm"
+        >
+          {(Object.keys(BALANCE_ENTRY_LABELS) as BalanceEntryKind[]).map(option => (
+            <option key={option} value={option}>{BALANCE_ENTRY_LABELS[option]}</option>
+          ))}
+        </select>
+      </label>
+      {labels.usd && (
+        <label className="text-xs text-gray-600">
+          {labels.usd}
+          <input type="number" min="0" step="any" value={usd} onChange={(e) => setUsd(e.target.value)} className={inputClassName} />
+        </label>
+      )}
+      <label className="text-xs text-gray-600">
+        {labels.sc}
+        <input type="number" step="any" value={sc} onChange={(e) => setSc(e.target.value)} autoFocus className={inputClassName} />
+      </label>
+      <label className="text-xs text-gray-600">
+        {labels.gc}
+        <input type="number" step="any" value={gc} onChange={(e) => setGc(e.target.value)} className={inputClassName} />
+      </label>
+      {kind === 'purchase' && (
+        <label className="text-xs text-gray-600">
+          SC playthrough (x)
+          <input type="number" min="0" step="any" value={multiplier} onChange={(e) => setMultiplier(e.target.value)} placeholder="None" className={inputClassName} />
+        </label>
+      )}
+      <label className="text-xs text-gray-600 flex-1 min-w-[8rem]">
+        Note (optional)
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded text-sm"
+        />
+      </label>
+      <div className="flex space-x-1.5">
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-3 py-1 text-xs font-medium text-white rounded bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={saving}
+          className="px-3 py-1 text-xs font-medium text-gray-600 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+      </div>
+      {error && <p className="w-full text-xs text-red-500">{error}</p>}
+    </form>
+  );
+};
+
+export default BalanceForm;
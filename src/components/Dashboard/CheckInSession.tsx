@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { CasinoBonus, CollectionDetails, CurrencyType, CURRENCY_LABELS } from '../../lib/supabaseClient';
+import { describeSchedule } from '../../lib/collectionSchedule';
+
+// One ready bonus to walk through during a check-in
+export interface CheckInItem {
+  casinoName: string;
+  siteUrl: string | null;
+  bonus: CasinoBonus;
+}
+
+export interface CheckInEntry {
+  bonusId: string;
+  details: CollectionDetails;
+}
+
+interface CheckInSessionProps {
+  items: CheckInItem[]; // Bonuses of the same casino next to each other, so its site opens once
+  onFinish: (entries: CheckInEntry[]) => Promise<void>; // Records everything collected in one go
+  onClose: () => void;
+}
+
+// Browsers only allow new tabs from a click, so this is called from click handlers
+export const openCasinoSite = (siteUrl: string | null) => {
+  if (siteUrl) window.open(siteUrl, '_blank', 'noopener,noreferrer');
+};
+
+const CheckInSession: React.FC<CheckInSessionProps> = ({ items, onFinish, onClose }) => {
+  const [index, setIndex] = useState(0);
+  const [entries, setEntries] = useState<CheckInEntry[]>([]);
+  const [amount, setAmount] = useState(items[0]?.bonus.bonus_value?.toString() ?? '');
+  const [currency, setCurrency] = useState<CurrencyType>('SC');
+  const [playthrough, setPlaythrough] = useState(''); // Sweeps Coins playthrough multiplier; '' means none
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const current = items[index];
+  const isDone = index >= items.length;
+
+  const finish = async (finalEntries: CheckInEntry[]) => {
+    if (finalEntries.length === 0) {
+      onClose();
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await onFinish(finalEntries);
+      onClose();
+    } catch (err: any) {
+      console.error('Check-in Error:', err);
+      setError(err.message || 'Failed to save the check-in. Nothing was recorded; try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Moves to the next bonus, opening its casino's site when it is a different casino
+  const advance = (nextEntries: CheckInEntry[]) => {
+    const next = items[index + 1];
+    setEntries(nextEntries);
+    setIndex(index + 1);
+    setNote('');
+    setPlaythrough('');
+    setError(null);
+
+    if (!next) {
+      finish(nextEntries);
+      return;
+    }
+    setAmount(next.bonus.bonus_value?.toString() ?? '');
+    if (next.casinoName !== current.casinoName) openCasinoSite(next.siteUrl);
+  };
+
+  const handleCollect = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = Number(amount);
+    if (amount.trim() === '' || isNaN(value) || value < 0) {
+      setError('Enter the amount collected (0 or more).');
+      return;
+    }
+    const multiplier = currency === 'SC' && playthrough.trim() !== '' ? Number(playthrough) : null;
+    if (multiplier !== null && (isNaN(multiplier) || multiplier <= 0)) {
+      setError('Playthrough must be a number above 0, or blank for none.');
+      return;
+    }
+    advance([...entries, { bonusId: current.bonus.id, details: { amount: value, currency, note, playthrough_multiplier: multiplier } }]);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 mb-6 border-2 border-green-200">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold">Check-in</h3>
+        <span className="text-sm text-gray-500">
+          {isDone ? `${items.length} of ${items.length}` : `${index + 1} of ${items.length}`} · {entries.length} collected
+        </span>
+      </div>
+
+      {isDone ? (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-700">
+            {saving ? `Saving ${entries.length} collections...` : `Done: ${entries.length} collected, ${items.length - entries.length} skipped.`}
+          </p>
+          {error && (
+            <div className="flex items-center space-x-2">
+              <p className="text-sm text-red-500">{error}</p>
+              <button
+                onClick={() => finish(entries)}
+                disabled={saving}
+                className="px-3 py-1 text-xs font-medium text-white rounded bg-green-500 hover:bg-green-600 disabled:opacity-50"
+              >
+                Retry
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <form onSubmit={handleCollect} className="space-y-3">
+          <div className="flex justify-between items-start">
+            <div>
+              <span className="font-medium block">{current.casinoName}</span>
+              <span className="text-sm text-gray-700 block">{current.bonus.name}</span>
+              <span className="text-xs text-gray-500">{describeSchedule(current.bonus)}</span>
+            </div>
+            {current.siteUrl ? (
+              <button
+                type="button"
+                onClick={() => openCasinoSite(current.siteUrl)}
+                className="px-2 py-1 text-xs font-medium text-blue-600 hover:text-blue-800 rounded bg-blue-100 hover:bg-blue-200"
+              >
+                Open site
+              </button>
+            ) : (
+              <span className="text-xs text-gray-400 italic">No website saved</span>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-end gap-2">
+            <label className="text-xs text-gray-600">
+              Amount
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                autoFocus
+                className="mt-1 block w-24 px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Currency
+              <select
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value as CurrencyType)}
+                className="mt-1 block px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                {(Object.keys(CURRENCY_LABELS) as CurrencyType[]).map(option => (
+                  <option key={option} value={option}>{CURRENCY_LABELS[option]}</option>
+                ))}
+              </select>
+            </label>
+            {currency === 'SC' && (
+              <label className="text-xs text-gray-600">
+                Playthrough (x)
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={playthrough}
+                  onChange={(e) => setPlaythrough(e.target.value)}
+                  placeholder="None"
+                  className="mt-1 block w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+              </label>
+            )}
+            <label className="text-xs text-gray-600 flex-1 min-w-[8rem]">
+              Note (optional)
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </label>
+          </div>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+
+          <div className="flex justify-between">
+            <button
+              type="button"
+              onClick={() => finish(entries)}
+              disabled={saving}
+              className="px-3 py-1 text-xs font-medium text-gray-600 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50"
+            >
+              {entries.length > 0 ? `Stop and save ${entries.length}` : 'Cancel'}
+            </button>
+            <div className="flex space-x-1.5">
+              <button
+                type="button"
+                onClick={() => advance(entries)}
+                disabled={saving}
+                className="px-3 py-1 text-xs font-medium text-gray-600 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50"
+              >
+                Skip
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-3 py-1 text-xs font-medium text-white rounded bg-green-500 hover:bg-green-600 disabled:opacity-50"
+              >
+                {index === items.length - 1 ? 'Collect & Finish' : 'Collect & Next'}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default CheckInSession;
@@ -3,15 +3,17 @@ import React from 'react';
 interface MetricCardProps {
   title: string;
   value: React.ReactNode; // Use ReactNode for flexibility (string, number, JSX)
+  detail?: React.ReactNode; // Small print under the value
   // Optional: Add icon?: React.ReactNode;
   // Optional: Add children?: React.ReactNode; // For extra content like progress bars
 }
 
-const MetricCard: React.FC<MetricCardProps> = ({ title, value }) => {
+const MetricCard: React.FC<MetricCardProps> = ({ title, value, detail }) => {
   return (
     <div className="bg-white p-4 rounded-lg shadow">
       <h3 className="text-sm font-medium text-gray-500 mb-1 truncate">{title}</h3>
       <div className="text-xl md:text-2xl font-semibold">{value}</div>
+      {detail && <p className="text-xs text-gray-500 mt-1">{detail}</p>}
       {/* Placeholder for potential children like progress bars */}
       {/* {children} */}
     </div>
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { PauseWindow } from '../../lib/supabaseClient';
+import { parseDateTimeInput } from '../../lib/collectionSchedule';
+
+interface PauseControlProps {
+  activePause: PauseWindow | null; // The pause in effect now, if any
+  pauseLabel: string; // e.g. "Pause" for one casino, "Vacation mode" for the account
+  timeZone: string; // The "until" time is entered on this zone's wall clock
+  formatTime: (instant: Date) => string;
+  onPause: (until: Date | null) => Promise<void>;
+  onResume: (pause: PauseWindow) => Promise<void>;
+}
+
+// A Pause button that asks for an optional end time, or the current pause with a Resume button
+const PauseControl: React.FC<PauseControlProps> = ({ activePause, pauseLabel, timeZone, formatTime, onPause, onResume }) => {
+  const [formOpen, setFormOpen] = useState(false);
+  const [until, setUntil] = useState(''); // datetime-local value; '' pauses until resumed
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+      setFormOpen(false);
+      setUntil('');
+    } catch (err: any) {
+      console.error('Pause Error:', err);
+      setError(err.message || 'Failed to update the pause.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    const untilTime = until ? parseDateTimeInput(until, timeZone) : null;
+    if (until && (untilTime === null || untilTime.getTime() <= Date.now())) {
+      setError('Pick a time in the future, or leave it empty to pause until you resume.');
+      return;
+    }
+    run(() => onPause(untilTime));
+  };
+
+  if (activePause) {
+    return (
+      <span className="inline-flex items-center space-x-1.5 text-xs">
+        <span className="text-gray-500">
+          Paused {activePause.ends_at ? `until ${formatTime(activePause.ends_at)}` : 'until resumed'}
+        </span>
+        <button
+          onClick={() => run(() => onResume(activePause))}
+          disabled={saving}
+          className="px-2 py-1 font-medium text-indigo-600 hover:text-indigo-800 rounded bg-indigo-100 hover:bg-indigo-200 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Resuming...' : 'Resume'}
+        </button>
+        {error && <span className="text-red-500">{error}</span>}
+      </span>
+    );
+  }
+
+  if (!formOpen) {
+    return (
+      <button
+        onClick={() => setFormOpen(true)}
+        className="px-2 py-1 text-xs font-medium text-gray-600 hover:text-gray-800 rounded bg-gray-100 hover:bg-gray-200 transition-colors"
+      >
+        {pauseLabel}
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleConfirm} className="inline-flex flex-wrap items-end gap-2 text-xs">
+      <label className="text-gray-600">
+        Until (optional)
+        <input
+          type="datetime-local"
+          value={until}
+          onChange={(e) => setUntil(e.target.value)}
+          className="mt-1 block px-2 py-1 border border-gray-300 rounded text-sm"
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={saving}
+        className="px-2 py-1 font-medium text-white rounded bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+      >
+        {saving ? 'Pausing...' : 'Pause'}
+      </button>
+      <button
+        type="button"
+        onClick={() => { setFormOpen(false); setError(null); }}
+        disabled={saving}
+        className="px-2 py-1 font-medium text-gray-600 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50"
+      >
+        Cancel
+      </button>
+      {error && <span className="w-full text-red-500">{error}</span>}
+    </form>
+  );
+};
+
+export default PauseControl;
@@ -0,0 +1,81 @@
+// src/lib/casinoStats.ts
+
+// Totals and chart series for one casino's detail page, from its imported rows
+
+export interface WagerRow {
+  wager_date: string | null; // YYYY-MM-DD
+  total_wagered: number | null;
+  total_won: number | null;
+  net_result: number | null;
+}
+
+export interface TransactionRow {
+  amount_spent: number | null;
+  redemption_request: number | null;
+  tax_implications: number | null;
+}
+
+export interface WagerSummary {
+  wagered: number;
+  won: number;
+  netResult: number;
+  rtp: number | null; // Won divided by wagered; null before anything was wagered
+}
+
+export interface TransactionSummary {
+  spent: number;
+  redeemed: number;
+  netRewards: number; // Redeemed minus spent and taxes, as on the Dashboard
+}
+
+// One point of a chart; dates are YYYY-MM-DD
+export interface SeriesPoint {
+  date: string;
+  value: number;
+}
+
+// A row's net result; rows imported without one fall back to won minus wagered
+export const getNetResult = (wager: WagerRow): number =>
+  wager.net_result ?? (wager.total_won ?? 0) - (wager.total_wagered ?? 0);
+
+export const summarizeWagers = (wagers: WagerRow[]): WagerSummary => {
+  const wagered = wagers.reduce((sum, wager) => sum + (wager.total_wagered ?? 0), 0);
+  const won = wagers.reduce((sum, wager) => sum + (wager.total_won ?? 0), 0);
+  return {
+    wagered,
+    won,
+    netResult: wagers.reduce((sum, wager) => sum + getNetResult(wager), 0),
+    rtp: wagered > 0 ? won / wagered : null,
+  };
+};
+
+export const summarizeTransactions = (transactions: TransactionRow[]): TransactionSummary => {
+  const spent = transactions.reduce((sum, transaction) => sum + (transaction.amount_spent ?? 0), 0);
+  const redeemed = transactions.reduce((sum, transaction) => sum + (transaction.redemption_request ?? 0), 0);
+  const taxes = transactions.reduce((sum, transaction) => sum + (transaction.tax_implications ?? 0), 0);
+  return { spent, redeemed, netRewards: redeemed - spent - taxes };
+};
+
+/**
+ * Running total of `values` by day: one point per date, oldest first.
+ */
+export const getCumulativeSeries = (values: SeriesPoint[]): SeriesPoint[] => {
+  const byDate = new Map<string, number>();
+  for (const { date, value } of values) byDate.set(date, (byDate.get(date) ?? 0) + value);
+
+  let total = 0;
+  return [...byDate.keys()].sort().map(date => {
+    total += byDate.get(date)!;
+    return { date, value: total };
+  });
+};
+
+/**
+ * Cumulative net result of the wagers, by wager date.
+ */
+export const getNetResultSeries = (wagers: WagerRow[]): SeriesPoint[] =>
+  getCumulativeSeries(
+    wagers
+      .filter(wager => wager.wager_date)
+      .map(wager => ({ date: wager.wager_date!, value: getNetResult(wager) }))
+  );
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { CollectionRule, getLoginStreak, getNextCollectionTime, parseDateTimeInput, wallTimeToInstant } from './collectionSchedule';
+
+// In 2025 New York springs forward on March 9 (02:00 EST -> 03:00 EDT)
+// and falls back on November 2 (02:00 EDT -> 01:00 EST)
+const ZONE = 'America/New_York';
+
+const at = (iso: string) => new Date(iso);
+
+const dailyAt = (resetTime: string): CollectionRule => ({
+  schedule_type: 'daily',
+  collection_interval_hours: 24,
+  reset_time: resetTime,
+  reset_time_zone: ZONE,
+  include_weekends: true,
+});
+
+const weeklyOn = (resetDays: number[], resetTime: string): CollectionRule => ({
+  ...dailyAt(resetTime),
+  schedule_type: 'weekly',
+  reset_days: resetDays,
+});
+
+describe('wallTimeToInstant', () => {
+  it('uses the offset in effect on either side of the year', () => {
+    expect(wallTimeToInstant({ year: 2025, month: 1, day: 15, hour: 12, minute: 0, second: 0 }, ZONE)).toEqual(at('2025-01-15T17:00:00Z'));
+    expect(wallTimeToInstant({ year: 2025, month: 7, day: 1, hour: 12, minute: 0, second: 0 }, ZONE)).toEqual(at('2025-07-01T16:00:00Z'));
+  });
+
+  it('moves a time in the spring-forward gap forward by the gap', () => {
+    // 02:30 never happens on March 9; clocks read 03:30 EDT an hour after 01:30 EST
+    expect(wallTimeToInstant({ year: 2025, month: 3, day: 9, hour: 2, minute: 30, second: 0 }, ZONE)).toEqual(at('2025-03-09T07:30:00Z'));
+  });
+
+  it('resolves an ambiguous fall-back time to its first occurrence', () => {
+    // 01:30 happens twice on November 2: first in EDT (05:30Z), then in EST (06:30Z)
+    expect(wallTimeToInstant({ year: 2025, month: 11, day: 2, hour: 1, minute: 30, second: 0 }, ZONE)).toEqual(at('2025-11-02T05:30:00Z'));
+  });
+});
+
+describe('parseDateTimeInput', () => {
+  it('reads datetime-local values on DST change days', () => {
+    expect(parseDateTimeInput('2025-03-09T02:30', ZONE)).toEqual(at('2025-03-09T07:30:00Z'));
+    expect(parseDateTimeInput('2025-11-02T01:30', ZONE)).toEqual(at('2025-11-02T05:30:00Z'));
+    expect(parseDateTimeInput('2025-03-09T03:30:15', ZONE)).toEqual(at('2025-03-09T07:30:15Z'));
+  });
+
+  it('rejects values not in the datetime-local format', () => {
+    expect(parseDateTimeInput('2025-03-09 02:30', ZONE)).toBeNull();
+    expect(parseDateTimeInput('', ZONE)).toBeNull();
+  });
+});
+
+describe('getNextCollectionTime', () => {
+  it('keeps a daily midnight reset at midnight local time across spring-forward', () => {
+    // Saturday noon EST -> midnight EST; Sunday noon EDT -> midnight EDT
+    expect(getNextCollectionTime(dailyAt('00:00'), at('2025-03-08T17:00:00Z'), ZONE)).toEqual(at('2025-03-09T05:00:00Z'));
+    expect(getNextCollectionTime(dailyAt('00:00'), at('2025-03-09T16:00:00Z'), ZONE)).toEqual(at('2025-03-10T04:00:00Z'));
+  });
+
+  it('moves a daily reset inside the spring-forward gap to after the gap', () => {
+    expect(getNextCollectionTime(dailyAt('02:30'), at('2025-03-08T17:00:00Z'), ZONE)).toEqual(at('2025-03-09T07:30:00Z'));
+  });
+
+  it('keeps a daily midnight reset at midnight local time across fall-back', () => {
+    // Saturday noon EDT -> midnight EDT; Sunday noon EST -> midnight EST
+    expect(getNextCollectionTime(dailyAt('00:00'), at('2025-11-01T16:00:00Z'), ZONE)).toEqual(at('2025-11-02T04:00:00Z'));
+    expect(getNextCollectionTime(dailyAt('00:00'), at('2025-11-02T17:00:00Z'), ZONE)).toEqual(at('2025-11-03T05:00:00Z'));
+  });
+
+  it('resets only once at an ambiguous fall-back time', () => {
+    expect(getNextCollectionTime(dailyAt('01:30'), at('2025-11-01T16:00:00Z'), ZONE)).toEqual(at('2025-11-02T05:30:00Z'));
+    // Collected at 01:45 EDT, after the first 01:30: the repeated 01:30 EST is not a new reset
+    expect(getNextCollectionTime(dailyAt('01:30'), at('2025-11-02T05:45:00Z'), ZONE)).toEqual(at('2025-11-03T06:30:00Z'));
+  });
+
+  it('keeps a weekly reset at the same local time across DST changes', () => {
+    // Monday 01:00 EST -> next Monday at midnight EDT
+    expect(getNextCollectionTime(weeklyOn([1], '00:00'), at('2025-03-03T06:00:00Z'), ZONE)).toEqual(at('2025-03-10T04:00:00Z'));
+    // Monday 01:00 EDT -> next Monday at midnight EST
+    expect(getNextCollectionTime(weeklyOn([1], '00:00'), at('2025-10-27T05:00:00Z'), ZONE)).toEqual(at('2025-11-03T05:00:00Z'));
+  });
+
+  it('runs a rolling interval in elapsed time across spring-forward', () => {
+    const rule: CollectionRule = { collection_interval_hours: 24, include_weekends: true };
+    // Saturday noon EST + 24h is Sunday 13:00 EDT
+    expect(getNextCollectionTime(rule, at('2025-03-08T17:00:00Z'), ZONE)).toEqual(at('2025-03-09T17:00:00Z'));
+  });
+
+  it('keeps the time of day when skipping a weekend that springs forward', () => {
+    const rule: CollectionRule = { collection_interval_hours: 24, include_weekends: false };
+    // Friday noon EST + 24h lands on Saturday; it moves to Monday noon EDT
+    expect(getNextCollectionTime(rule, at('2025-03-07T17:00:00Z'), ZONE)).toEqual(at('2025-03-10T16:00:00Z'));
+  });
+});
+
+describe('getLoginStreak', () => {
+  it('counts late-night collections on the right days across spring-forward', () => {
+    // 23:30 EST on March 8, then 23:30 EDT on March 9 and 10
+    const collectedAt = [at('2025-03-09T04:30:00Z'), at('2025-03-10T03:30:00Z'), at('2025-03-11T03:30:00Z')];
+    expect(getLoginStreak(collectedAt, ZONE, false, at('2025-03-11T04:00:00Z'))).toEqual({
+      current: 3,
+      best: 3,
+      breaksAt: at('2025-03-12T04:00:00Z'), // End of March 11, EDT
+    });
+  });
+
+  it('counts late-night collections on the right days across fall-back', () => {
+    // 23:30 EDT on November 1, then 23:30 EST on November 2 (a 25-hour day)
+    const collectedAt = [at('2025-11-02T03:30:00Z'), at('2025-11-03T04:30:00Z')];
+    expect(getLoginStreak(collectedAt, ZONE, false, at('2025-11-03T05:00:00Z'))).toEqual({
+      current: 2,
+      best: 2,
+      breaksAt: at('2025-11-04T05:00:00Z'), // End of November 3, EST
+    });
+  });
+
+  it('breaks the streak after a missed day across a DST change', () => {
+    // Noon on March 8 and March 10, nothing on the 23-hour March 9
+    const collectedAt = [at('2025-03-08T17:00:00Z'), at('2025-03-10T16:00:00Z')];
+    expect(getLoginStreak(collectedAt, ZONE, false, at('2025-03-10T17:00:00Z'))).toEqual({
+      current: 1,
+      best: 1,
+      breaksAt: at('2025-03-12T04:00:00Z'),
+    });
+  });
+});
@@ -0,0 +1,298 @@
+// src/lib/collectionSchedule.ts
+
+// All schedule arithmetic happens on the wall clock of the user's chosen IANA time zone,
+// never the browser's, so everyone sees the same next-collection time for the same data.
+
+// 'interval': a rolling timer that starts when the bonus is collected.
+// 'daily' / 'weekly': the bonus resets at a fixed clock time in the casino's zone,
+// no matter when it was last collected.
+export type ScheduleType = 'interval' | 'daily' | 'weekly';
+
+// The parts of a tracked casino that decide when its bonus can be collected again
+export interface CollectionRule {
+  schedule_type?: ScheduleType; // Missing means 'interval', as before schedules existed
+  collection_interval_hours: number;
+  reset_time?: string | null; // 'HH:MM' (or 'HH:MM:SS' as Postgres returns it), for daily/weekly
+  reset_time_zone?: string | null; // IANA zone the reset time is in; defaults to the user's zone
+  reset_days?: number[] | null; // Weekly only: days the bonus resets, 0 = Sunday
+  include_weekends: boolean;
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// A wall-clock time in some time zone. Months are 1-12.
+export interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Intl formatters are expensive to build and the dashboard re-renders every 30 seconds
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Reads the wall-clock time of an instant in the given time zone.
+ */
+export const getWallTime = (instant: Date, timeZone: string): WallTime => {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+};
+
+// Day of the week of a calendar date, independent of any time zone
+const weekdayOf = ({ year, month, day }: WallTime): number => new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+
+const wallTimeAsUtc = (wall: WallTime): number =>
+  Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+
+// Offset of the zone from UTC at an instant, in milliseconds (e.g. -4h for New York in summer)
+const getOffsetMs = (instant: number, timeZone: string): number =>
+  wallTimeAsUtc(getWallTime(new Date(instant), timeZone)) - Math.floor(instant / 1000) * 1000;
+
+/**
+ * Converts a wall-clock time in the given zone to an instant.
+ * On a fall-back day an ambiguous time resolves to its first occurrence; on a
+ * spring-forward day a time inside the gap moves forward by the length of the gap
+ * (02:30 becomes 03:30), matching how clocks are read on those days.
+ */
+export const wallTimeToInstant = (wall: WallTime, timeZone: string): Date => {
+  const asUtc = wallTimeAsUtc(wall);
+  // DST transitions are months apart, so a day either side gives the offsets before and after
+  const offsetBefore = getOffsetMs(asUtc - DAY_MS, timeZone);
+  const offsetAfter = getOffsetMs(asUtc + DAY_MS, timeZone);
+
+  const candidates = [asUtc - offsetBefore, asUtc - offsetAfter]
+    .filter(instant => wallTimeAsUtc(getWallTime(new Date(instant), timeZone)) === asUtc)
+    .sort((a, b) => a - b);
+
+  return new Date(candidates.length > 0 ? candidates[0] : asUtc - offsetBefore);
+};
+
+// Moves a wall time by whole calendar days, keeping the time of day
+const addCalendarDays = (wall: WallTime, days: number): WallTime => {
+  const date = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + days));
+  return { ...wall, year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+/**
+ * Formats an instant for an <input type="datetime-local"> showing the given zone's wall clock.
+ */
+export const formatDateTimeInput = (instant: Date, timeZone: string): string => {
+  const wall = getWallTime(instant, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${wall.year}-${pad(wall.month)}-${pad(wall.day)}T${pad(wall.hour)}:${pad(wall.minute)}`;
+};
+
+/**
+ * Reads a datetime-local value ("2025-03-09T02:30") as a wall-clock time in the given zone.
+ * Returns null when the value is not in that format.
+ */
+export const parseDateTimeInput = (value: string, timeZone: string): Date | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) return null;
+  const [year, month, day, hour, minute, second] = match.slice(1).map(part => Number(part ?? 0));
+  return wallTimeToInstant({ year, month, day, hour, minute, second }, timeZone);
+};
+
+const isWeekend = (weekday: number) => weekday === 0 || weekday === 6;
+
+// Parses 'HH:MM' or 'HH:MM:SS'; null when the value is not a valid time of day
+export const parseResetTime = (value: string | null | undefined): { hour: number; minute: number } | null => {
+  const match = value?.match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/);
+  if (!match) return null;
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  return hour < 24 && minute < 60 ? { hour, minute } : null;
+};
+
+// Next rolling-timer expiry, pushed past the weekend when the casino skips weekends
+const nextIntervalTime = (rule: CollectionRule, lastCollectedAt: Date, timeZone: string): Date => {
+  const nextCollection = new Date(lastCollectedAt.getTime() + rule.collection_interval_hours * HOUR_MS);
+  if (rule.include_weekends) return nextCollection;
+
+  const wall = getWallTime(nextCollection, timeZone);
+  const weekday = weekdayOf(wall); // 0 = Sunday, 6 = Saturday
+  if (!isWeekend(weekday)) return nextCollection;
+
+  return wallTimeToInstant(addCalendarDays(wall, weekday === 6 ? 2 : 1), timeZone);
+};
+
+// First fixed reset strictly after the last collection. Days are walked on the wall clock
+// of the casino's zone, so the reset stays at e.g. midnight Eastern through DST changes.
+const nextFixedResetTime = (rule: CollectionRule, lastCollectedAt: Date, timeZone: string): Date => {
+  const resetTime = parseResetTime(rule.reset_time) ?? { hour: 0, minute: 0 };
+  const resetZone = rule.reset_time_zone || timeZone;
+  const weeklyDays = rule.schedule_type === 'weekly'
+    ? (rule.reset_days ?? []).filter(day => Number.isInteger(day) && day >= 0 && day <= 6)
+    : [];
+  const resetDays = weeklyDays.length > 0 ? weeklyDays : [0, 1, 2, 3, 4, 5, 6];
+  // A weekly schedule that only resets on weekends keeps those days despite the weekend rule
+  const weekdayResets = resetDays.filter(day => !isWeekend(day));
+  const allowedDays = rule.include_weekends || weekdayResets.length === 0 ? resetDays : weekdayResets;
+
+  const collectedWall = getWallTime(lastCollectedAt, resetZone);
+  const firstDay: WallTime = { ...collectedWall, hour: resetTime.hour, minute: resetTime.minute, second: 0 };
+
+  // Eight days always reach an allowed day after the collection day itself
+  for (let offset = 0; ; offset++) {
+    const day = addCalendarDays(firstDay, offset);
+    if (!allowedDays.includes(weekdayOf(day))) continue;
+
+    const reset = wallTimeToInstant(day, resetZone);
+    if (reset.getTime() > lastCollectedAt.getTime() || offset > 7) return reset;
+  }
+};
+
+/**
+ * Computes when the next bonus can be collected.
+ * Rolling intervals run one interval after the last collection. The interval is elapsed
+ * time, like the casinos' own countdowns, so a 24-hour timer ends at 23:00 or 01:00 wall
+ * time across a DST change. Fixed daily/weekly schedules return the first reset after the
+ * last collection, so collecting late does not push the schedule back.
+ * When the casino does not pay out on weekends, Saturday and Sunday are skipped, keeping
+ * the time of day. Weekends are judged on the wall clock of `timeZone` (or the casino's
+ * reset zone for fixed schedules). A casino that was never collected is ready now.
+ * @param rule The casino's schedule and weekend setting.
+ * @param lastCollectedAt When the bonus was last collected, or null if never.
+ * @param timeZone IANA time zone the user's week runs in.
+ */
+export const getNextCollectionTime = (
+  rule: CollectionRule,
+  lastCollectedAt: Date | null,
+  timeZone: string,
+  now: Date = new Date()
+): Date => {
+  if (!lastCollectedAt) return now;
+
+  return (rule.schedule_type ?? 'interval') === 'interval'
+    ? nextIntervalTime(rule, lastCollectedAt, timeZone)
+    : nextFixedResetTime(rule, lastCollectedAt, timeZone);
+};
+
+/**
+ * Short human-readable schedule, e.g. "Every 24h", "Daily at 00:00 America/New_York"
+ * or "Mon, Thu at 09:00 UTC".
+ */
+export const describeSchedule = (rule: CollectionRule): string => {
+  const scheduleType = rule.schedule_type ?? 'interval';
+  if (scheduleType === 'interval') return `Every ${rule.collection_interval_hours}h`;
+
+  const time = parseResetTime(rule.reset_time);
+  const clock = time ? `${String(time.hour).padStart(2, '0')}:${String(time.minute).padStart(2, '0')}` : '00:00';
+  const zone = rule.reset_time_zone ? ` ${rule.reset_time_zone}` : '';
+  if (scheduleType === 'daily') return `Daily at ${clock}${zone}`;
+
+  const days = [...(rule.reset_days ?? [])].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]).join(', ');
+  return `${days || 'Weekly'} at ${clock}${zone}`;
+};
+
+// A stretch of time in which tracking is paused; open-ended until resumed when ends_at is null
+export interface PauseRange {
+  starts_at: Date;
+  ends_at: Date | null;
+}
+
+/**
+ * The pause in effect at `now`, if any.
+ */
+export const getActivePause = <T extends PauseRange>(pauses: T[], now: Date = new Date()): T | null =>
+  pauses.find(pause => pause.starts_at.getTime() <= now.getTime() && (!pause.ends_at || pause.ends_at.getTime() > now.getTime())) ?? null;
+
+// A login streak at one casino: consecutive days with at least one collection
+export interface LoginStreak {
+  current: number; // 0 once a day has been missed
+  best: number;
+  // End of the last day the streak can be kept alive; null without a current streak,
+  // or while tracking is paused with no end date
+  breaksAt: Date | null;
+}
+
+// A streak never waits longer than this for the next required day
+const MAX_SKIPPED_DAYS = 366;
+
+// Days since 1970-01-01 of a calendar date, so consecutive days differ by one
+const dayNumberOf = ({ year, month, day }: WallTime): number => Date.UTC(year, month - 1, day) / DAY_MS;
+
+const wallTimeOfDayNumber = (dayNumber: number): WallTime => {
+  const date = new Date(dayNumber * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate(), hour: 0, minute: 0, second: 0 };
+};
+
+// The next day a collection is needed to keep a streak going; null when every day
+// ahead is skipped (an open-ended pause)
+const nextStreakDay = (dayNumber: number, isSkipped: (dayNumber: number) => boolean): number | null => {
+  for (let next = dayNumber + 1; next <= dayNumber + MAX_SKIPPED_DAYS; next++) {
+    if (!isSkipped(next)) return next;
+  }
+  return null;
+};
+
+/**
+ * Derives a login streak from collection history. Days are calendar days in `timeZone`.
+ * Days that touch a pause window, and Saturday and Sunday when `skipWeekends` is set
+ * (the casino pays nothing on weekends), are not required: they extend the streak when
+ * a collection was made anyway and never break it.
+ * @param collectedAt When each collection was made, in any order.
+ * @param pauses Pause windows that apply to the casino, including account-wide ones.
+ */
+export const getLoginStreak = (
+  collectedAt: Date[],
+  timeZone: string,
+  skipWeekends: boolean,
+  now: Date = new Date(),
+  pauses: PauseRange[] = []
+): LoginStreak => {
+  const days = [...new Set(collectedAt.map(instant => dayNumberOf(getWallTime(instant, timeZone))))].sort((a, b) => a - b);
+  if (days.length === 0) return { current: 0, best: 0, breaksAt: null };
+
+  const dayStart = (dayNumber: number) => wallTimeToInstant(wallTimeOfDayNumber(dayNumber), timeZone).getTime();
+  const isSkipped = (dayNumber: number): boolean => {
+    if (skipWeekends && isWeekend(weekdayOf(wallTimeOfDayNumber(dayNumber)))) return true;
+    if (pauses.length === 0) return false;
+    const start = dayStart(dayNumber);
+    const end = dayStart(dayNumber + 1);
+    return pauses.some(pause => pause.starts_at.getTime() < end && (!pause.ends_at || pause.ends_at.getTime() > start));
+  };
+
+  let run = 0;
+  let best = 0;
+  days.forEach((day, index) => {
+    // Consecutive when every day in between was skipped
+    const next = index > 0 ? nextStreakDay(days[index - 1], isSkipped) : null;
+    run = next !== null && day <= next ? run + 1 : 1;
+    best = Math.max(best, run);
+  });
+
+  // The streak survives until the end of the next day a collection is due
+  const nextDue = nextStreakDay(days[days.length - 1], isSkipped);
+  if (nextDue === null) return { current: run, best, breaksAt: null };
+  const breaksAt = new Date(dayStart(nextDue + 1));
+  return breaksAt.getTime() > now.getTime()
+    ? { current: run, best, breaksAt }
+    : { current: 0, best, breaksAt: null };
+};
+
+// The browser's zone, used until the user picks one in the calculator
+export const getBrowserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
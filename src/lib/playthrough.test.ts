@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { getPlaythroughStatus } from './playthrough';
+
+const at = (iso: string) => new Date(iso);
+
+describe('getPlaythroughStatus', () => {
+  it('has nothing to play through without requirements', () => {
+    expect(getPlaythroughStatus([], [{ wager_date: '2025-01-01', total_wagered: 50 }], 'UTC')).toEqual({
+      required: 0,
+      completed: 0,
+      remaining: 0,
+    });
+  });
+
+  it('applies wagers to the oldest requirement first, then the next', () => {
+    // Given newest first; the first wager can only go to the older requirement
+    const requirements = [
+      { opened_at: at('2025-01-03T12:00:00Z'), amount: 100 },
+      { opened_at: at('2025-01-01T12:00:00Z'), amount: 100 },
+    ];
+    const wagers = [
+      { wager_date: '2025-01-03', total_wagered: 70 },
+      { wager_date: '2025-01-02', total_wagered: 80 },
+    ];
+    // January 2 fills 80 of the older one; January 3 finishes it (20) and puts 50 on the newer one
+    expect(getPlaythroughStatus(requirements, wagers, 'UTC')).toEqual({ required: 200, completed: 150, remaining: 50 });
+  });
+
+  it('does not count wagers from before a requirement opened', () => {
+    const requirements = [{ opened_at: at('2025-01-05T12:00:00Z'), amount: 100 }];
+    const wagers = [{ wager_date: '2025-01-04', total_wagered: 500 }];
+    expect(getPlaythroughStatus(requirements, wagers, 'UTC')).toEqual({ required: 100, completed: 0, remaining: 100 });
+  });
+
+  it('counts wagers from the day the requirement opened', () => {
+    const requirements = [{ opened_at: at('2025-01-05T12:00:00Z'), amount: 100 }];
+    const wagers = [{ wager_date: '2025-01-05', total_wagered: 40 }];
+    expect(getPlaythroughStatus(requirements, wagers, 'UTC')).toEqual({ required: 100, completed: 40, remaining: 60 });
+  });
+
+  it('judges the day a requirement opened in the given time zone', () => {
+    // 03:00 UTC on January 5 is still 22:00 on January 4 in New York
+    const requirements = [{ opened_at: at('2025-01-05T03:00:00Z'), amount: 100 }];
+    const wagers = [{ wager_date: '2025-01-04', total_wagered: 100 }];
+    expect(getPlaythroughStatus(requirements, wagers, 'America/New_York').remaining).toBe(0);
+    expect(getPlaythroughStatus(requirements, wagers, 'UTC').remaining).toBe(100);
+  });
+
+  it('does not save extra wagering for requirements opened later', () => {
+    const requirements = [
+      { opened_at: at('2025-01-01T12:00:00Z'), amount: 100 },
+      { opened_at: at('2025-01-05T12:00:00Z'), amount: 100 },
+    ];
+    const wagers = [{ wager_date: '2025-01-01', total_wagered: 300 }];
+    expect(getPlaythroughStatus(requirements, wagers, 'UTC')).toEqual({ required: 200, completed: 100, remaining: 100 });
+  });
+});
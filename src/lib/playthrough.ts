@@ -0,0 +1,62 @@
+// src/lib/playthrough.ts
+
+import { getWallTime } from './collectionSchedule';
+
+// Sweeps Coins that must be wagered before they can be redeemed, opened by a collection
+// or purchase made with a playthrough multiplier
+export interface PlaythroughRequirement {
+  opened_at: Date;
+  amount: number; // Coins received times the multiplier
+}
+
+// Wagering from the imported spreadsheet; only the day is known
+export interface PlaythroughWager {
+  wager_date: string; // YYYY-MM-DD
+  total_wagered: number;
+}
+
+export interface PlaythroughStatus {
+  required: number;
+  completed: number;
+  remaining: number; // 0 once every requirement has been played through
+}
+
+// YYYY-MM-DD of an instant on the wall clock of timeZone, comparable with wager dates
+const dateKeyOf = (instant: Date, timeZone: string): string => {
+  const { year, month, day } = getWallTime(instant, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Applies wagers to a casino's playthrough requirements, oldest requirement first.
+ * A day's wagering counts toward requirements opened on or before that day (in
+ * `timeZone`); wagering beyond what is open then is not saved for later requirements.
+ * @param requirements The casino's requirements, in any order.
+ * @param wagers The casino's wagers, in any order.
+ */
+export const getPlaythroughStatus = (
+  requirements: PlaythroughRequirement[],
+  wagers: PlaythroughWager[],
+  timeZone: string
+): PlaythroughStatus => {
+  const open = requirements
+    .map(requirement => ({ day: dateKeyOf(requirement.opened_at, timeZone), left: requirement.amount }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+  const required = open.reduce((sum, requirement) => sum + requirement.left, 0);
+
+  [...wagers]
+    .sort((a, b) => a.wager_date.localeCompare(b.wager_date))
+    .forEach(wager => {
+      let available = wager.total_wagered;
+      for (const requirement of open) {
+        if (available <= 0 || requirement.day > wager.wager_date) break;
+        const applied = Math.min(available, requirement.left);
+        requirement.left -= applied;
+        available -= applied;
+      }
+    });
+
+  const remaining = open.reduce((sum, requirement) => sum + requirement.left, 0);
+  return { required, completed: required - remaining, remaining };
+};
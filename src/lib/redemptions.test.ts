@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { RedemptionTimeline, getAveragePayoutMs, getMoneyInFlight, isSlowRedemption } from './redemptions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const at = (iso: string) => new Date(iso);
+
+const redemption = (overrides: Partial<RedemptionTimeline>): RedemptionTimeline => ({
+  tracked_casino_id: 'casino-a',
+  status: 'requested',
+  amount: 100,
+  fee: 0,
+  requested_at: at('2025-01-01T00:00:00Z'),
+  paid_at: null,
+  ...overrides,
+});
+
+describe('getMoneyInFlight', () => {
+  it('subtracts fees from each redemption in flight', () => {
+    const redemptions = [
+      redemption({ amount: 100, fee: 5 }),
+      redemption({ status: 'pending', amount: 50, fee: 2.5 }),
+      redemption({ status: 'approved', amount: 25 }),
+    ];
+    expect(getMoneyInFlight(redemptions)).toBe(167.5);
+  });
+
+  it('never counts a redemption as less than nothing', () => {
+    expect(getMoneyInFlight([redemption({ amount: 10, fee: 15 })])).toBe(0);
+  });
+
+  it('leaves out paid and rejected redemptions', () => {
+    const redemptions = [
+      redemption({ amount: 100 }),
+      redemption({ status: 'paid', amount: 200, paid_at: at('2025-01-03T00:00:00Z') }),
+      redemption({ status: 'rejected', amount: 300 }),
+    ];
+    expect(getMoneyInFlight(redemptions)).toBe(100);
+  });
+});
+
+describe('getAveragePayoutMs', () => {
+  it('averages request-to-payment time of paid redemptions per casino', () => {
+    const redemptions = [
+      redemption({ status: 'paid', paid_at: at('2025-01-03T00:00:00Z') }), // 2 days
+      redemption({ status: 'paid', paid_at: at('2025-01-05T00:00:00Z') }), // 4 days
+      redemption({ tracked_casino_id: 'casino-b', status: 'paid', paid_at: at('2025-01-02T00:00:00Z') }),
+      redemption({ status: 'rejected' }),
+      redemption({}),
+    ];
+    expect(getAveragePayoutMs(redemptions)).toEqual(new Map([['casino-a', 3 * DAY_MS], ['casino-b', DAY_MS]]));
+  });
+});
+
+describe('isSlowRedemption', () => {
+  const averages = new Map([['casino-a', 3 * DAY_MS]]);
+  const waiting = redemption({ requested_at: at('2025-02-01T00:00:00Z') });
+
+  it('flags a redemption only once it has waited longer than the casino usually takes', () => {
+    expect(isSlowRedemption(waiting, averages, at('2025-02-03T00:00:00Z'))).toBe(false);
+    expect(isSlowRedemption(waiting, averages, at('2025-02-04T00:00:00Z'))).toBe(false); // Exactly the average
+    expect(isSlowRedemption(waiting, averages, at('2025-02-04T00:00:01Z'))).toBe(true);
+  });
+
+  it('never flags a casino without paid history', () => {
+    const elsewhere = { ...waiting, tracked_casino_id: 'casino-b' };
+    expect(isSlowRedemption(elsewhere, averages, at('2026-02-01T00:00:00Z'))).toBe(false);
+  });
+
+  it('never flags a finished redemption', () => {
+    const rejected = { ...waiting, status: 'rejected' as const };
+    expect(isSlowRedemption(rejected, averages, at('2026-02-01T00:00:00Z'))).toBe(false);
+  });
+});
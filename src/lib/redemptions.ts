@@ -0,0 +1,70 @@
+// src/lib/redemptions.ts
+
+// Where a redemption is in the casino's process. 'paid' and 'rejected' are final.
+export type RedemptionStatus = 'requested' | 'pending' | 'approved' | 'paid' | 'rejected';
+
+export const REDEMPTION_STATUS_LABELS: Record<RedemptionStatus, string> = {
+  requested: 'Requested',
+  pending: 'Pending',
+  approved: 'Approved',
+  paid: 'Paid',
+  rejected: 'Rejected',
+};
+
+// Statuses a redemption can move to from each status; casinos sometimes skip steps
+export const NEXT_REDEMPTION_STATUSES: Record<RedemptionStatus, RedemptionStatus[]> = {
+  requested: ['pending', 'approved', 'paid', 'rejected'],
+  pending: ['approved', 'paid', 'rejected'],
+  approved: ['paid', 'rejected'],
+  paid: [],
+  rejected: [],
+};
+
+// The parts of a redemption that decide how long it has been waiting
+export interface RedemptionTimeline {
+  tracked_casino_id: string;
+  status: RedemptionStatus;
+  amount: number; // Sweeps Coins, worth $1 each
+  fee: number; // Dollars
+  requested_at: Date;
+  paid_at: Date | null;
+}
+
+// Requested but not yet paid or rejected
+export const isInFlight = ({ status }: Pick<RedemptionTimeline, 'status'>): boolean =>
+  status !== 'paid' && status !== 'rejected';
+
+/**
+ * Dollars on their way: every redemption still in flight, less its fees.
+ */
+export const getMoneyInFlight = (redemptions: RedemptionTimeline[]): number =>
+  redemptions.filter(isInFlight).reduce((sum, redemption) => sum + Math.max(0, redemption.amount - redemption.fee), 0);
+
+/**
+ * Average time from request to payment of each casino's paid redemptions, keyed by
+ * tracked casino ID. Casinos that have never paid out are missing.
+ */
+export const getAveragePayoutMs = (redemptions: RedemptionTimeline[]): Map<string, number> => {
+  const totals = new Map<string, { sum: number; count: number }>();
+  for (const redemption of redemptions) {
+    if (redemption.status !== 'paid' || !redemption.paid_at) continue;
+    const total = totals.get(redemption.tracked_casino_id) ?? { sum: 0, count: 0 };
+    total.sum += redemption.paid_at.getTime() - redemption.requested_at.getTime();
+    total.count += 1;
+    totals.set(redemption.tracked_casino_id, total);
+  }
+  return new Map([...totals].map(([trackedCasinoId, { sum, count }]) => [trackedCasinoId, sum / count]));
+};
+
+/**
+ * True when a redemption in flight has been waiting longer than its casino usually takes
+ * to pay. Without any paid redemptions at the casino there is nothing to compare with.
+ */
+export const isSlowRedemption = (
+  redemption: RedemptionTimeline,
+  averagePayoutMs: Map<string, number>,
+  now: Date = new Date()
+): boolean => {
+  const average = averagePayoutMs.get(redemption.tracked_casino_id);
+  return isInFlight(redemption) && average !== undefined && now.getTime() - redemption.requested_at.getTime() > average;
+};
@@ -1,4 +1,8 @@
 import { createClient } from '@supabase/supabase-js'
+import bundledCatalog from '../../supabase/seed/casino_catalog.json';
+import { getBrowserTimeZone, PauseRange, ScheduleType } from './collectionSchedule';
+import { getPlaythroughStatus, PlaythroughRequirement, PlaythroughStatus, PlaythroughWager } from './playthrough';
+import { RedemptionStatus, RedemptionTimeline } from './redemptions';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -12,10 +16,11 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 // --- API Functions ---
 
 /**
- * Fetches the tracked casinos for the currently authenticated user.
+ * Fetches the active (not archived or deleted) tracked casinos for the currently
+ * authenticated user, each with its bonuses.
  * Assumes RLS is enabled and user is logged in.
  */
-export const getTrackedCasinos = async () => {
+export const getTrackedCasinos = async (): Promise<TrackedCasino[]> => {
   const { data: { user }, error: userError } = await supabase.auth.getUser();
 
   console.log('getTrackedCasinos - User fetch result:', { user, userError });
@@ -27,33 +32,29 @@ export const getTrackedCasinos = async () => {
 
   const { data, error } = await supabase
     .from('tracked_casinos')
-    .select(`
-      id,
-      casino_name,
-      bonus_description,
-      collection_interval_hours,
-      last_collected_at
-    `)
+    .select(`${TRACKED_CASINO_COLUMNS}, casino_bonuses (${CASINO_BONUS_COLUMNS}), pause_windows (${PAUSE_WINDOW_COLUMNS})`)
     // RLS automatically handles the user_id filtering
-    .order('last_collected_at', { ascending: true, nullsFirst: true }); // Sort by oldest collection first (nulls are considered oldest)
+    .is('archived_at', null)
+    .is('deleted_at', null)
+    .order('last_collected_at', { ascending: true, nullsFirst: true }) // Sort by oldest collection first (nulls are considered oldest)
+    .order('created_at', { referencedTable: 'casino_bonuses' });
 
   if (error) {
     console.error('Error fetching tracked casinos:', error.message);
     throw new Error(error.message);
   }
 
-  // Convert string dates from Supabase to Date objects
-  return data.map(item => ({
-    ...item,
-    last_collected_at: item.last_collected_at ? new Date(item.last_collected_at) : null
-  }));
+  return data.map(toTrackedCasino);
 };
 
 /**
- * Updates the last_collected_at timestamp for a specific tracked casino entry.
- * @param trackedCasinoId The UUID of the tracked_casinos entry to update.
+ * Records a collection in the ledger and updates the bonus's (and its casino's)
+ * last_collected_at timestamp. All of it happens in one database transaction (record_collection).
+ * @param bonusId The UUID of the casino_bonuses entry that was collected.
+ * @param details How much was collected, in which currency, and an optional note.
+ * @param collectedAt When it was collected, for claims made earlier (e.g. on another device). Defaults to now.
  */
-export const updateLastCollected = async (trackedCasinoId: string) => {
+export const recordCollection = async (bonusId: string, details: CollectionDetails, collectedAt?: Date): Promise<Collection> => {
   const { data: { user }, error: userError } = await supabase.auth.getUser();
 
   if (userError || !user) {
@@ -61,30 +62,34 @@ export const updateLastCollected = async (trackedCasinoId: string) => {
     throw new Error(userError?.message || 'User not found - cannot update collection');
   }
 
-  const now = new Date().toISOString(); // Get current time in ISO format for Supabase
-
-  const { data, error } = await supabase
-    .from('tracked_casinos')
-    .update({ last_collected_at: now })
-    .eq('id', trackedCasinoId)
-    // RLS policy ensures user can only update their own entries
-    .select('id') // Select something to confirm the update happened
-    .single(); // Expect only one row to be updated
+  // The database function checks that the bonus belongs to the current user
+  const { data, error } = await supabase.rpc('record_collection', {
+    p_bonus_id: bonusId,
+    p_amount: details.amount,
+    p_currency: details.currency,
+    p_note: details.note ?? null,
+    p_collected_at: collectedAt?.toISOString() ?? null,
+    p_playthrough_multiplier: details.playthrough_multiplier ?? null,
+  });
 
   if (error) {
-    console.error('Error updating last collected time:', error.message);
-    throw new Error(error.message || 'Failed to update collection time');
+    console.error('Error recording collection:', error.message);
+    throw new Error(error.message || 'Failed to record collection');
   }
 
   if (!data) {
-     console.warn('No tracked casino found with the provided ID or RLS prevented update.');
-     throw new Error('Could not find the tracked casino to update, or permission denied.');
+     console.warn('No bonus found with the provided ID or RLS prevented update.');
+     throw new Error('Could not find the bonus to update, or permission denied.');
   }
 
-  console.log(`Successfully updated last_collected_at for ${trackedCasinoId}`);
+  const collection = data as Collection;
+  const trackedCasinoId = collection.tracked_casino_id;
+  const now = collection.collected_at;
+  console.log(`Successfully recorded collection for bonus ${bonusId}`);
 
   // --- ADDITION: Update user_form_data.last_collection_time ---
-  if (user) {
+  // A backdated claim may be older than the calculator's value, so leave it alone
+  if (user && !collectedAt) {
     const { error: userFormDataError } = await supabase
       .from('user_form_data')
       .update({ last_collection_time: now })
@@ -102,54 +107,191 @@ export const updateLastCollected = async (trackedCasinoId: string) => {
     } else {
       console.log(`Successfully updated user_form_data.last_collection_time for user ${user.id}`);
     }
-  } else {
+  } else if (!user) {
       console.warn('Cannot update user_form_data: user object not available.')
   }
   // --- END ADDITION ---
 
-  // Fetch casino name for better activity log description
-  let casinoName = `casino ID: ${trackedCasinoId}`; // Default description
+  // Fetch casino and bonus names for better activity log description
+  const casinoName = await describeCollectionSource(collection);
+
+  // Also log this activity. Backdated claims are logged as corrections.
+  if (user) {
+    addActivityLog({ // Use the fetched name
+      user_id: user.id,
+      activity_type: collectedAt ? 'collection_corrected' : 'collection_made',
+      description: collectedAt
+        ? `Recorded an earlier collection of ${formatCollectionAmount(collection)} from ${casinoName} (collected ${new Date(collection.collected_at).toLocaleString()})`
+        : `Collected ${formatCollectionAmount(collection)} from ${casinoName}`,
+      related_casino_id: trackedCasinoId,
+      related_collection_id: collection.id, // Removed with the collection if it is undone
+    }).catch(logError => {
+      // Log errors from activity logging but don't block the primary action
+      console.error('Failed to log collection activity:', logError);
+    });
+  }
+
+  return collection;
+};
+
+// "Casino (Bonus)" for activity log descriptions; falls back to IDs when the names can't be read
+const describeCollectionSource = async (collection: Collection): Promise<string> => {
+  const fallback = `casino ID: ${collection.tracked_casino_id}`;
   try {
+    if (collection.bonus_id) {
+      const { data: bonusData, error: nameError } = await supabase
+        .from('casino_bonuses')
+        .select('name, tracked_casinos (casino_name)')
+        .eq('id', collection.bonus_id)
+        .single();
+
+      if (nameError) {
+        console.error('Error fetching casino name for activity log:', nameError);
+        return fallback;
+      }
+      // The to-one embed is typed as an array by supabase-js
+      const casino = bonusData.tracked_casinos as unknown as { casino_name: string } | null;
+      return `${casino?.casino_name ?? fallback} (${bonusData.name})`;
+    }
+
+    // The bonus has been deleted since; name the casino alone
     const { data: casinoData, error: nameError } = await supabase
       .from('tracked_casinos')
       .select('casino_name')
-      .eq('id', trackedCasinoId)
+      .eq('id', collection.tracked_casino_id)
       .single();
 
     if (nameError) {
       console.error('Error fetching casino name for activity log:', nameError);
-    } else if (casinoData) {
-      casinoName = casinoData.casino_name;
+      return fallback;
     }
+    return casinoData.casino_name;
   } catch (e) {
     console.error('Exception fetching casino name:', e);
+    return fallback;
   }
+};
 
-  // Also log this activity
-  if (user) {
-    addActivityLog({ // Use the fetched name
+/**
+ * Records several collections in one round trip, as at the end of a check-in session.
+ * Either all of them are recorded or none are (record_collections).
+ * @param entries The bonus each collection was made from, with its amount, currency and note.
+ */
+export const recordCollections = async (
+  entries: { bonusId: string; details: CollectionDetails }[]
+): Promise<Collection[]> => {
+  if (entries.length === 0) return [];
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot record collections');
+  }
+
+  const { data, error } = await supabase.rpc('record_collections', {
+    p_collections: entries.map(({ bonusId, details }) => ({
+      bonus_id: bonusId,
+      amount: details.amount,
+      currency: details.currency,
+      note: details.note ?? null,
+      playthrough_multiplier: details.playthrough_multiplier ?? null,
+    })),
+  });
+
+  if (error) {
+    console.error('Error recording collections:', error.message);
+    throw new Error(error.message || 'Failed to record collections');
+  }
+
+  const collections = (data ?? []) as Collection[];
+  console.log(`Successfully recorded ${collections.length} collections`);
+
+  // Same bookkeeping as recordCollection, batched into one request each
+  const latest = collections.reduce((max, c) => (c.collected_at > max ? c.collected_at : max), '');
+  const { error: userFormDataError } = await supabase
+    .from('user_form_data')
+    .update({ last_collection_time: latest })
+    .eq('user_id', user.id);
+  if (userFormDataError) {
+    console.error(`Error updating user_form_data.last_collection_time for user ${user.id}:`, userFormDataError.message);
+  }
+
+  const names = new Map<string, string>();
+  const { data: bonusData, error: nameError } = await supabase
+    .from('casino_bonuses')
+    .select('id, name, tracked_casinos (casino_name)')
+    .in('id', entries.map(entry => entry.bonusId));
+  if (nameError) {
+    console.error('Error fetching casino names for activity log:', nameError);
+  }
+  for (const bonus of bonusData ?? []) {
+    const casino = bonus.tracked_casinos as unknown as { casino_name: string } | null;
+    names.set(bonus.id, `${casino?.casino_name ?? 'Unknown casino'} (${bonus.name})`);
+  }
+
+  const { error: logError } = await supabase.from('activity_log').insert(
+    collections.map(collection => ({
       user_id: user.id,
       activity_type: 'collection_made',
-      description: `Collected from ${casinoName}`,
-      related_casino_id: trackedCasinoId,
-    }).catch(logError => {
-      // Log errors from activity logging but don't block the primary action
-      console.error('Failed to log collection activity:', logError);
-    });
+      description: `Collected ${formatCollectionAmount(collection)} from ${names.get(collection.bonus_id ?? '') ?? `casino ID: ${collection.tracked_casino_id}`}`,
+      related_casino_id: collection.tracked_casino_id,
+      related_collection_id: collection.id,
+    }))
+  );
+  if (logError) {
+    // Log errors from activity logging but don't block the primary action
+    console.error('Failed to log collection activity:', logError.message);
+  }
+
+  return collections;
+};
+
+/**
+ * Undoes a collection: removes it from the ledger together with its activity log entry,
+ * and restores the bonus's previous last_collected_at (undo_collection).
+ * The correction itself is logged.
+ * @param collectionId The ID of the collections entry to undo.
+ */
+export const undoCollection = async (collectionId: string): Promise<void> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot undo collection');
   }
 
-  return data; // Return the updated data (just the id in this case)
+  const { data, error } = await supabase.rpc('undo_collection', { p_collection_id: collectionId });
+
+  if (error) {
+    console.error('Error undoing collection:', error.message);
+    throw new Error(error.message || 'Failed to undo collection');
+  }
+
+  const collection = data as Collection;
+  console.log(`Successfully undid collection ${collectionId}`);
+
+  const casinoName = await describeCollectionSource(collection);
+  addActivityLog({
+    user_id: user.id,
+    activity_type: 'collection_corrected',
+    description: `Undid a collection of ${formatCollectionAmount(collection)} from ${casinoName} (collected ${new Date(collection.collected_at).toLocaleString()})`,
+    related_casino_id: collection.tracked_casino_id,
+  }).catch(logError => {
+    console.error('Failed to log collection correction:', logError);
+  });
 };
 
 /**
  * Updates an existing tracked casino entry for the current user.
+ * Schedules live on the casino's bonuses; see updateCasinoBonus.
  * @param trackedCasinoId The ID of the casino entry to update.
  * @param updates An object containing the fields to update (e.g., { casino_name: 'New Name' }).
  */
 export const updateTrackedCasino = async (
   trackedCasinoId: string,
-  updates: Partial<Omit<TrackedCasino, 'id' | 'user_id' | 'created_at' | 'last_collected_at'>>
-): Promise<TrackedCasino> => {
+  updates: Partial<NewTrackedCasinoData>
+): Promise<void> => {
   const { data: { user }, error: userError } = await supabase.auth.getUser();
 
   if (userError || !user) {
@@ -158,10 +300,11 @@ export const updateTrackedCasino = async (
   }
 
   // Only allow updating specific fields - prevent changing user_id, id, etc.
-  const allowedUpdates: Partial<TrackedCasino> = {};
+  const allowedUpdates: Partial<NewTrackedCasinoData> = {};
   if (updates.casino_name !== undefined) allowedUpdates.casino_name = updates.casino_name;
-  if (updates.collection_interval_hours !== undefined) allowedUpdates.collection_interval_hours = updates.collection_interval_hours;
   if (updates.bonus_description !== undefined) allowedUpdates.bonus_description = updates.bonus_description;
+  if (updates.site_url !== undefined) allowedUpdates.site_url = updates.site_url;
+  if (updates.min_redemption !== undefined) allowedUpdates.min_redemption = updates.min_redemption;
   // Add other updatable fields here if needed
 
   if (Object.keys(allowedUpdates).length === 0) {
@@ -176,8 +319,8 @@ export const updateTrackedCasino = async (
     .update(allowedUpdates)
     .eq('id', trackedCasinoId)
     .eq('user_id', user.id) // RLS handles this, but explicit check is safer
-    .select()
-    .single(); // Return the updated record
+    .select('id')
+    .single();
 
   if (error) {
     console.error('Error updating tracked casino:', error.message);
@@ -189,7 +332,6 @@ export const updateTrackedCasino = async (
   }
 
   console.log(`Successfully updated tracked casino: ${trackedCasinoId}`);
-  return data;
 };
 
 /**
@@ -218,7 +360,7 @@ export const addActivityLog = async (
  * Fetches the most recent activity logs for the current user.
  * @param limit Max number of log entries to return (default 20)
  */
-export const getActivityLog = async (limit: number = 20): Promise<ActivityLog[]> => {
+export const getActivityLog = async (limit: number = 20, trackedCasinoId?: string): Promise<ActivityLog[]> => {
   const { data: { user }, error: userError } = await supabase.auth.getUser();
 
   if (userError || !user) {
@@ -227,11 +369,16 @@ export const getActivityLog = async (limit: number = 20): Promise<ActivityLog[]>
   }
 
   // RLS policy handles filtering by user_id = auth.uid()
-  const { data, error } = await supabase
+  let query = supabase
     .from('activity_log')
-    .select('id, created_at, activity_type, description, related_casino_id')
+    .select('id, created_at, activity_type, description, related_casino_id, related_collection_id')
     .order('created_at', { ascending: false })
     .limit(limit);
+  if (trackedCasinoId) {
+    query = query.eq('related_casino_id', trackedCasinoId);
+  }
+
+  const { data, error } = await query;
 
   if (error) {
     console.error('Error fetching activity log:', error.message);
@@ -258,9 +405,10 @@ export const getTrackedCasinoById = async (trackedCasinoId: string): Promise<Tra
 
   const { data, error } = await supabase
     .from('tracked_casinos')
-    .select('*')
+    .select(`${TRACKED_CASINO_COLUMNS}, casino_bonuses (${CASINO_BONUS_COLUMNS}), pause_windows (${PAUSE_WINDOW_COLUMNS})`)
     .eq('id', trackedCasinoId)
     .eq('user_id', user.id) // RLS handles this, but explicit check is safer
+    .order('created_at', { referencedTable: 'casino_bonuses' })
     .single(); // Expecting only one result
 
   if (error) {
@@ -274,71 +422,147 @@ export const getTrackedCasinoById = async (trackedCasinoId: string): Promise<Tra
     }
   }
 
-  return data;
+  return toTrackedCasino(data);
+};
+
+// --- Casino Management Functions (Archive/Delete/Restore) ---
+
+// Casinos are never removed from the database, so their bonuses, collections and activity
+// history survive. Archived and deleted casinos are hidden everywhere except the archive page.
+type CasinoStatusChange = Pick<TrackedCasino, 'archived_at' | 'deleted_at'>;
+
+const changeCasinoStatus = async (
+  trackedCasinoId: string,
+  changes: CasinoStatusChange,
+  activityType: 'casino_archived' | 'casino_deleted' | 'casino_restored',
+  verb: string
+): Promise<void> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot update casino');
+  }
+
+  // RLS policy ensures user can only change their own entries
+  const { data, error } = await supabase
+    .from('tracked_casinos')
+    .update(changes)
+    .eq('id', trackedCasinoId)
+    .eq('user_id', user.id) // Explicitly check user_id for extra safety, though RLS should cover it
+    .select('casino_name')
+    .single();
+
+  if (error) {
+    console.error(`Error changing tracked casino status (${activityType}):`, error.message);
+    throw new Error(error.message || 'Failed to update tracked casino');
+  }
+
+  console.log(`Successfully ${verb} tracked casino: ${trackedCasinoId}`);
+
+  addActivityLog({
+    user_id: user.id,
+    activity_type: activityType,
+    description: `${verb.charAt(0).toUpperCase()}${verb.slice(1)} casino: ${data.casino_name}`,
+    related_casino_id: trackedCasinoId, // Still links, since the row is kept
+  }).catch(logError => {
+    console.error(`Failed to log ${activityType} activity:`, logError);
+  });
 };
 
-// --- Casino Management Functions (Delete/Update) ---
+/**
+ * Archives a tracked casino (closed, banned, no longer played). It disappears from the
+ * dashboard and calculator but keeps its history, and can be restored.
+ * @param trackedCasinoId The ID of the casino entry to archive.
+ */
+export const archiveTrackedCasino = (trackedCasinoId: string): Promise<void> =>
+  changeCasinoStatus(trackedCasinoId, { archived_at: new Date().toISOString(), deleted_at: null }, 'casino_archived', 'archived');
 
 /**
- * Deletes a tracked casino entry for the current user.
+ * Moves a tracked casino to the trash. Like archiving, its history is kept and it can be restored.
  * @param trackedCasinoId The ID of the casino entry to delete.
  */
-export const deleteTrackedCasino = async (trackedCasinoId: string): Promise<void> => {
+export const deleteTrackedCasino = (trackedCasinoId: string): Promise<void> =>
+  changeCasinoStatus(trackedCasinoId, { archived_at: null, deleted_at: new Date().toISOString() }, 'casino_deleted', 'deleted');
+
+/**
+ * Brings an archived or deleted casino back to the dashboard.
+ * @param trackedCasinoId The ID of the casino entry to restore.
+ */
+export const restoreTrackedCasino = (trackedCasinoId: string): Promise<void> =>
+  changeCasinoStatus(trackedCasinoId, { archived_at: null, deleted_at: null }, 'casino_restored', 'restored');
+
+/**
+ * Fetches the current user's archived and deleted casinos, most recently removed first.
+ */
+export const getInactiveTrackedCasinos = async (): Promise<TrackedCasino[]> => {
   const { data: { user }, error: userError } = await supabase.auth.getUser();
 
   if (userError || !user) {
     console.error('Error fetching user:', userError?.message);
-    throw new Error(userError?.message || 'User not found - cannot delete casino');
+    throw new Error(userError?.message || 'User not found - cannot fetch archived casinos');
   }
 
-  // RLS policy ensures user can only delete their own entries
-  const { error } = await supabase
+  const { data, error } = await supabase
     .from('tracked_casinos')
-    .delete()
-    .eq('id', trackedCasinoId)
-    .eq('user_id', user.id); // Explicitly check user_id for extra safety, though RLS should cover it
+    .select(`${TRACKED_CASINO_COLUMNS}, casino_bonuses (${CASINO_BONUS_COLUMNS}), pause_windows (${PAUSE_WINDOW_COLUMNS})`)
+    .or('archived_at.not.is.null,deleted_at.not.is.null')
+    .order('created_at', { referencedTable: 'casino_bonuses' });
 
   if (error) {
-    console.error('Error deleting tracked casino:', error.message);
-    throw new Error(error.message || 'Failed to delete tracked casino');
+    console.error('Error fetching archived casinos:', error.message);
+    throw new Error(error.message || 'Failed to fetch archived casinos');
   }
 
-  console.log(`Successfully deleted tracked casino: ${trackedCasinoId}`);
-
-  // Optionally log this activity (consider if needed, might clutter log)
-  // addActivityLog({
-  //   user_id: user.id,
-  //   activity_type: 'casino_deleted',
-  //   description: `Deleted tracked casino ID: ${trackedCasinoId}`,
-  //   related_casino_id: trackedCasinoId, // This ID won't link anywhere after deletion
-  // }).catch(logError => {
-  //   console.error('Failed to log casino deletion activity:', logError);
-  // });
+  const removedAt = (casino: TrackedCasino) => casino.deleted_at ?? casino.archived_at ?? '';
+  return data.map(toTrackedCasino).sort((a, b) => removedAt(b).localeCompare(removedAt(a)));
 };
 
 // --- Type Definitions ---
 
+// The casino a row belongs to, selected as `tracked_casinos (casino_name)`. Supabase returns
+// a to-one relation as an object (null when the row has no casino), not the array it types.
+interface EmbeddedCasinoName {
+  tracked_casinos: { casino_name: string } | null;
+}
+
 export interface TrackedCasino {
   id: string;
   casino_name: string;
-  bonus_description: string | null;
-  collection_interval_hours: number;
-  last_collected_at: Date | null;
+  bonus_description: string | null; // Free-form notes about the casino
+  site_url: string | null; // Opened for the casino during a check-in session
+  catalog_casino_id: string | null; // The casino catalog entry it was created from, if any
+  min_redemption: number | null; // Smallest Sweeps Coins redemption the casino accepts
+  archived_at: string | null; // ISO timestamp; archived casinos are hidden but keep their history
+  deleted_at: string | null; // ISO timestamp; deleted casinos sit in the trash until restored
+  last_collected_at: Date | null; // Most recent collection of any of its bonuses
+  bonuses: CasinoBonus[]; // Oldest first
+  pause_windows: PauseWindow[]; // This casino's own pauses; account-wide ones come from getAccountPauseWindows
 }
 
 // Type for the data needed to add a new casino
 export interface NewTrackedCasinoData {
   casino_name: string;
   bonus_description: string | null;
-  collection_interval_hours: number;
+  site_url: string | null;
+  catalog_casino_id: string | null;
+  min_redemption: number | null;
   // user_id will be handled automatically by RLS default
 }
 
+// Cleans up a typed website address: "luckyland.com" becomes "https://luckyland.com", blank becomes null
+export const normalizeSiteUrl = (value: string): string | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+};
+
 /**
- * Adds a new casino to be tracked for the current user.
- * @param casinoData Object containing casino_name, bonus_description, collection_interval_hours
+ * Adds a new casino to be tracked for the current user, together with its first bonus.
+ * @param casinoData Object containing casino_name, bonus_description, site_url, catalog_casino_id and min_redemption
+ * @param firstBonus Name, schedule, value and weekend rule of the casino's first bonus
  */
-export const addTrackedCasino = async (casinoData: NewTrackedCasinoData) => {
+export const addTrackedCasino = async (casinoData: NewTrackedCasinoData, firstBonus: NewCasinoBonusData) => {
   const { data: { user }, error: userError } = await supabase.auth.getUser();
 
   if (userError || !user) {
@@ -346,23 +570,17 @@ export const addTrackedCasino = async (casinoData: NewTrackedCasinoData) => {
     throw new Error(userError?.message || 'User not found - cannot add casino');
   }
 
-  // Prepare the data for insertion. user_id is not needed here
-  // if the RLS policy for INSERT has a default value like auth.uid().
-  // If not, we would need to add user.id here.
-  const { data, error } = await supabase
-    .from('tracked_casinos')
-    .insert([{
-      ...casinoData,
-      user_id: user.id // Explicitly set the user_id
-    }])
-    .select()
-    .single(); // Assuming we insert one row and want it returned
+  // The database function adds the casino and its first bonus in one transaction
+  const { data, error } = await supabase.rpc('add_tracked_casino', {
+    p_casino: casinoData,
+    p_bonus: firstBonus,
+  });
 
   if (error) {
     console.error('Error adding tracked casino:', error.message);
     // Provide more specific error feedback if possible (e.g., duplicate name?)
     if (error.message.includes('duplicate key value violates unique constraint')) {
-       throw new Error(`Casino "${casinoData.casino_name}" is already being tracked.`);
+       throw new Error(`Casino "${casinoData.casino_name}" is already being tracked. If you archived or deleted it, restore it from Archived Casinos.`);
     }
     throw new Error(error.message || 'Failed to add casino');
   }
@@ -384,6 +602,211 @@ export const addTrackedCasino = async (casinoData: NewTrackedCasinoData) => {
   return data;
 };
 
+// --- Casino Bonuses ---
+
+// One of the bonuses a casino offers (daily login, wheel spin, mail-in...), with its own schedule
+export interface CasinoBonus {
+  id: string;
+  tracked_casino_id: string;
+  name: string;
+  collection_interval_hours: number;
+  bonus_value: number | null; // Typical value of one collection, pre-filled when collecting
+  include_weekends: boolean; // False when the bonus cannot be collected on Saturday or Sunday
+  schedule_type: ScheduleType; // Rolling interval, or a fixed daily/weekly reset (see collectionSchedule)
+  reset_time: string | null; // 'HH:MM:SS' for daily/weekly schedules
+  reset_time_zone: string | null;
+  reset_days: number[] | null; // Weekly schedules only, 0 = Sunday
+  last_collected_at: Date | null;
+}
+
+export type NewCasinoBonusData = Omit<CasinoBonus, 'id' | 'tracked_casino_id' | 'last_collected_at'>;
+
+const TRACKED_CASINO_COLUMNS = 'id, casino_name, bonus_description, site_url, catalog_casino_id, min_redemption, archived_at, deleted_at, last_collected_at';
+
+const CASINO_BONUS_COLUMNS = `
+  id,
+  tracked_casino_id,
+  name,
+  collection_interval_hours,
+  bonus_value,
+  include_weekends,
+  schedule_type,
+  reset_time,
+  reset_time_zone,
+  reset_days,
+  last_collected_at
+`;
+
+// Rows as Supabase returns them, with ISO timestamp strings and the bonuses and pauses
+// embedded under their table names
+interface CasinoBonusRow extends Omit<CasinoBonus, 'last_collected_at'> {
+  last_collected_at: string | null;
+}
+
+interface TrackedCasinoRow extends Omit<TrackedCasino, 'last_collected_at' | 'bonuses' | 'pause_windows'> {
+  last_collected_at: string | null;
+  casino_bonuses: CasinoBonusRow[] | null;
+  pause_windows: PauseWindowRow[] | null;
+}
+
+// Converts string dates from Supabase to Date objects
+const toCasinoBonus = (row: CasinoBonusRow): CasinoBonus => ({
+  ...row,
+  last_collected_at: row.last_collected_at ? new Date(row.last_collected_at) : null,
+});
+
+const toTrackedCasino = ({ casino_bonuses, pause_windows, ...casino }: TrackedCasinoRow): TrackedCasino => ({
+  ...casino,
+  last_collected_at: casino.last_collected_at ? new Date(casino.last_collected_at) : null,
+  bonuses: (casino_bonuses ?? []).map(toCasinoBonus),
+  pause_windows: (pause_windows ?? []).map(toPauseWindow),
+});
+
+/**
+ * Adds a bonus to one of the current user's tracked casinos.
+ * @param trackedCasinoId The casino that offers the bonus.
+ * @param bonusData Name, schedule, value and weekend rule of the bonus.
+ */
+export const addCasinoBonus = async (trackedCasinoId: string, bonusData: NewCasinoBonusData): Promise<CasinoBonus> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot add bonus');
+  }
+
+  const { data, error } = await supabase
+    .from('casino_bonuses')
+    .insert([{ ...bonusData, tracked_casino_id: trackedCasinoId, user_id: user.id }])
+    .select(CASINO_BONUS_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error adding casino bonus:', error.message);
+    throw new Error(error.message || 'Failed to add bonus');
+  }
+
+  console.log(`Successfully added bonus to casino ${trackedCasinoId}`);
+  return toCasinoBonus(data);
+};
+
+/**
+ * Updates one of the current user's casino bonuses.
+ * @param bonusId The ID of the bonus to update.
+ * @param updates The fields to change.
+ */
+export const updateCasinoBonus = async (bonusId: string, updates: Partial<NewCasinoBonusData>): Promise<CasinoBonus> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot update bonus');
+  }
+
+  // RLS policy ensures user can only update their own bonuses
+  const { data, error } = await supabase
+    .from('casino_bonuses')
+    .update(updates)
+    .eq('id', bonusId)
+    .eq('user_id', user.id)
+    .select(CASINO_BONUS_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error updating casino bonus:', error.message);
+    throw new Error(error.message || 'Failed to update bonus');
+  }
+
+  console.log(`Successfully updated bonus: ${bonusId}`);
+  return toCasinoBonus(data);
+};
+
+/**
+ * Deletes one of the current user's casino bonuses. Its past collections stay in the ledger.
+ * @param bonusId The ID of the bonus to delete.
+ */
+export const deleteCasinoBonus = async (bonusId: string): Promise<void> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot delete bonus');
+  }
+
+  const { error } = await supabase
+    .from('casino_bonuses')
+    .delete()
+    .eq('id', bonusId)
+    .eq('user_id', user.id);
+
+  if (error) {
+    console.error('Error deleting casino bonus:', error.message);
+    throw new Error(error.message || 'Failed to delete bonus');
+  }
+
+  console.log(`Successfully deleted bonus: ${bonusId}`);
+};
+
+// --- Casino Catalog ---
+
+// A known casino from the shared catalog, used to fill in AddCasino
+export interface CatalogCasino {
+  id: string | null; // Null for bundled entries the database has not been seeded with yet
+  name: string;
+  site_url: string | null;
+  currency_types: CurrencyType[];
+  default_bonus: NewCasinoBonusData; // Its usual daily bonus, as the first bonus of a new casino
+}
+
+// Catalog rows and supabase/seed/casino_catalog.json entries share the same flat layout
+interface CatalogCasinoRow extends Omit<NewCasinoBonusData, 'name'> {
+  id: string;
+  name: string;
+  site_url: string | null;
+  currency_types: CurrencyType[];
+  bonus_name: string;
+}
+
+const toCatalogCasino = ({ id, name, site_url, currency_types, bonus_name, ...schedule }: CatalogCasinoRow): CatalogCasino => ({
+  id,
+  name,
+  site_url,
+  currency_types,
+  default_bonus: {
+    name: bonus_name,
+    collection_interval_hours: Number(schedule.collection_interval_hours),
+    bonus_value: schedule.bonus_value === null ? null : Number(schedule.bonus_value),
+    include_weekends: schedule.include_weekends,
+    schedule_type: schedule.schedule_type,
+    reset_time: schedule.reset_time,
+    reset_time_zone: schedule.reset_time_zone,
+    reset_days: schedule.reset_days,
+  },
+});
+
+/**
+ * Fetches the shared casino catalog, sorted by name. When the catalog table is empty or
+ * cannot be reached (a fresh local database), falls back to the copy bundled with the app.
+ */
+export const getCasinoCatalog = async (): Promise<CatalogCasino[]> => {
+  const { data, error } = await supabase
+    .from('casino_catalog')
+    .select('id, name, site_url, currency_types, bonus_name, collection_interval_hours, bonus_value, include_weekends, schedule_type, reset_time, reset_time_zone, reset_days')
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching casino catalog, using the bundled copy:', error.message);
+  }
+  if (error || !data || data.length === 0) {
+    // Bundled entries can't be linked to until the database is seeded (npm run seed:catalog)
+    return (bundledCatalog as CatalogCasinoRow[])
+      .map(entry => ({ ...toCatalogCasino(entry), id: null }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  return data.map(toCatalogCasino);
+};
+
 // --- Activity Log Types and Functions ---
 
 export interface ActivityLog {
@@ -392,4 +815,986 @@ export interface ActivityLog {
   activity_type: string;
   description: string;
   related_casino_id: string | null;
+  related_collection_id?: string | null; // Set on collection entries, which can be undone
 }
+
+// --- Imported Spreadsheet Data Types ---
+
+// Rows written by the parse-spreadsheet edge function
+export interface UserWager {
+  wager_date: string | null; // YYYY-MM-DD
+  casino_name: string | null;
+  game_played: string | null;
+  bet_size: number | null;
+  num_plays: number | null;
+  ending_balance: number | null;
+  total_wagered: number | null;
+  total_won: number | null;
+  net_result: number | null;
+  rtp: number | null;
+}
+
+export interface UserTransaction {
+  transaction_date: string | null; // YYYY-MM-DD
+  casino_name: string | null;
+  type: string | null;
+  amount_spent: number | null;
+  redemption_request: number | null;
+  after_playthrough_value: number | null;
+  cc_points: number | null;
+  tax_implications: number | null;
+}
+
+const WAGER_COLUMNS = 'id, wager_date, casino_name, game_played, bet_size, num_plays, ending_balance, total_wagered, total_won, net_result, rtp';
+const TRANSACTION_COLUMNS = 'id, transaction_date, casino_name, type, amount_spent, redemption_request, after_playthrough_value, cc_points, tax_implications';
+
+/**
+ * Fetches the imported wagers and transactions of one casino, oldest first. Imported rows
+ * only carry the casino's name, so they are matched on it, ignoring case.
+ * @param casinoName The tracked casino's name.
+ */
+export const getImportedRowsForCasino = async (
+  casinoName: string
+): Promise<{ wagers: UserWager[]; transactions: UserTransaction[] }> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot fetch imported data');
+  }
+
+  // ilike without wildcards is a case-insensitive equals; escape the ones a name may contain
+  const namePattern = casinoName.trim().replace(/[\\%_]/g, match => `\\${match}`);
+
+  const [wagers, transactions] = await Promise.all([
+    fetchAllPages(`wagers for ${casinoName}`, (from, to) => supabase
+      .from('user_wagers')
+      .select(WAGER_COLUMNS)
+      .ilike('casino_name', namePattern)
+      .order('wager_date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to)),
+    fetchAllPages(`transactions for ${casinoName}`, (from, to) => supabase
+      .from('user_transactions')
+      .select(TRANSACTION_COLUMNS)
+      .ilike('casino_name', namePattern)
+      .order('transaction_date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to)),
+  ]);
+  return { wagers, transactions };
+};
+
+// --- Dashboard Metrics ---
+
+const PAGE_SIZE = 1000; // PostgREST caps a single response
+
+/**
+ * Runs a query page by page until a short page comes back, so no rows are silently cut off.
+ * @param label What is being fetched, for the error message.
+ * @param fetchPage Fetches the rows from `from` to `to` inclusive; must be in a stable order.
+ */
+const fetchAllPages = async <T>(
+  label: string,
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error(`Error fetching ${label}:`, error.message);
+      throw new Error(error.message || `Failed to fetch ${label}`);
+    }
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+// Inclusive YYYY-MM-DD bounds; null means unbounded on that side
+export interface MetricsDateRange {
+  from: string | null;
+  to: string | null;
+}
+
+export interface CasinoMetrics {
+  casino_name: string;
+  balance: number;
+  netRewards: number;
+}
+
+export interface DashboardMetrics {
+  totalNetRewards: number;
+  perCasino: CasinoMetrics[];
+}
+
+const UNKNOWN_CASINO = 'Unknown casino';
+
+const isInRange = (date: string | null, range: MetricsDateRange): boolean => {
+  if (!date) return false;
+  if (range.from && date < range.from) return false;
+  if (range.to && date > range.to) return false;
+  return true;
+};
+
+/**
+ * Aggregates imported wagers and transactions into the Dashboard metrics.
+ * - Balance: the ending_balance of the latest wager on or before `range.to` (not limited by `range.from`).
+ *   Only shown per casino; the Dashboard total comes from the tracked casinos' balances.
+ * - Net rewards: redemptions in range minus purchases and tax implications in range.
+ */
+const aggregateDashboardMetrics = (
+  wagers: UserWager[],
+  transactions: UserTransaction[],
+  range: MetricsDateRange
+): DashboardMetrics => {
+  const byCasino = new Map<string, CasinoMetrics & { balanceDate: string | null }>();
+
+  const entryFor = (casinoName: string | null) => {
+    const name = casinoName || UNKNOWN_CASINO;
+    let entry = byCasino.get(name);
+    if (!entry) {
+      entry = {
+        casino_name: name,
+        balance: 0,
+        netRewards: 0,
+        balanceDate: null,
+      };
+      byCasino.set(name, entry);
+    }
+    return entry;
+  };
+
+  for (const wager of wagers) {
+    if (!wager.wager_date || (range.to && wager.wager_date > range.to)) continue;
+    const entry = entryFor(wager.casino_name);
+
+    // Later rows on the same date win, matching the sheet's top-to-bottom order
+    if (wager.ending_balance !== null && (entry.balanceDate === null || wager.wager_date >= entry.balanceDate)) {
+      entry.balance = wager.ending_balance;
+      entry.balanceDate = wager.wager_date;
+    }
+  }
+
+  for (const transaction of transactions) {
+    if (!isInRange(transaction.transaction_date, range)) continue;
+    const entry = entryFor(transaction.casino_name);
+    const spent = transaction.amount_spent ?? 0;
+    entry.netRewards += (transaction.redemption_request ?? 0) - spent - (transaction.tax_implications ?? 0);
+  }
+
+  const perCasino: CasinoMetrics[] = Array.from(byCasino.values())
+    .map(({ balanceDate: _balanceDate, ...entry }) => entry)
+    .sort((a, b) => a.casino_name.localeCompare(b.casino_name));
+
+  return {
+    totalNetRewards: perCasino.reduce((sum, casino) => sum + casino.netRewards, 0),
+    perCasino,
+  };
+};
+
+/**
+ * Fetches the current user's imported wagers and transactions and aggregates them
+ * into the Dashboard metrics, overall and per casino.
+ * @param range Inclusive date range to aggregate over.
+ */
+export const getDashboardMetrics = async (range: MetricsDateRange): Promise<DashboardMetrics> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot fetch metrics');
+  }
+
+  // Balances need every wager up to the end of the range, so only the upper bound is applied here.
+  // Ties on a date keep insertion order, which is the sheet's row order.
+  const [wagers, transactions] = await Promise.all([
+    fetchAllPages('wagers', (from, to) => {
+      let query = supabase
+        .from('user_wagers')
+        .select('wager_date, casino_name, game_played, bet_size, num_plays, ending_balance, total_wagered, total_won, net_result, rtp')
+        .order('wager_date', { ascending: true })
+        .order('id', { ascending: true });
+      if (range.to) query = query.lte('wager_date', range.to);
+      return query.range(from, to);
+    }),
+    fetchAllPages('transactions', (from, to) => {
+      let query = supabase
+        .from('user_transactions')
+        .select('transaction_date, casino_name, type, amount_spent, redemption_request, after_playthrough_value, cc_points, tax_implications')
+        .order('transaction_date', { ascending: true })
+        .order('id', { ascending: true });
+      if (range.from) query = query.gte('transaction_date', range.from);
+      if (range.to) query = query.lte('transaction_date', range.to);
+      return query.range(from, to);
+    }),
+  ]);
+
+  return aggregateDashboardMetrics(wagers, transactions, range);
+};
+
+// --- Spreadsheet Import Column Mapping ---
+
+// field key -> sheet header (null when the field is left unmapped)
+export type ColumnMapping = Record<string, string | null>;
+
+export interface WorkbookColumnMapping {
+  wagers: ColumnMapping;
+  transactions: ColumnMapping;
+}
+
+/**
+ * Fetches the column mapping the current user confirmed on their last upload.
+ * Returns null if the user has never confirmed a mapping.
+ */
+export const getSavedColumnMapping = async (): Promise<WorkbookColumnMapping | null> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot fetch column mapping');
+  }
+
+  const { data, error } = await supabase
+    .from('import_column_mappings')
+    .select('wagers, transactions')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching column mapping:', error.message);
+    throw new Error(error.message || 'Failed to fetch column mapping');
+  }
+
+  return data;
+};
+
+/**
+ * Saves the confirmed column mapping so later uploads are pre-filled with it.
+ * @param mapping Mapping for the Wagers and Transactions sheets.
+ */
+export const saveColumnMapping = async (mapping: WorkbookColumnMapping): Promise<void> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot save column mapping');
+  }
+
+  const { error } = await supabase
+    .from('import_column_mappings')
+    .upsert({
+      user_id: user.id,
+      wagers: mapping.wagers,
+      transactions: mapping.transactions,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'user_id' });
+
+  if (error) {
+    console.error('Error saving column mapping:', error.message);
+    throw new Error(error.message || 'Failed to save column mapping');
+  }
+};
+
+// --- Import Batch History ---
+
+export interface ImportBatch {
+  id: string;
+  created_at: string; // Comes as ISO string
+  uploader_email: string | null;
+  file_name: string;
+  file_size: number;
+  file_hash: string;
+  import_mode: 'merge' | 'replace';
+  wagers_inserted: number;
+  transactions_inserted: number;
+  rows_unchanged: number;
+  rows_conflicting: number;
+  rows_skipped: number;
+  rolled_back_at: string | null;
+}
+
+/**
+ * Fetches the current user's spreadsheet imports, newest first.
+ * @param limit Max number of batches to return (default 20)
+ */
+export const getImportBatches = async (limit: number = 20): Promise<ImportBatch[]> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot fetch import history');
+  }
+
+  // RLS policy handles filtering by user_id = auth.uid()
+  const { data, error } = await supabase
+    .from('import_batches')
+    .select('id, created_at, uploader_email, file_name, file_size, file_hash, import_mode, wagers_inserted, transactions_inserted, rows_unchanged, rows_conflicting, rows_skipped, rolled_back_at')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching import batches:', error.message);
+    throw new Error(error.message || 'Failed to fetch import history');
+  }
+
+  return data || [];
+};
+
+/**
+ * Removes the wagers and transactions inserted by one import and marks it rolled back.
+ * Rows deleted by a 'replace' import are not restored.
+ * @param batchId The ID of the import batch to roll back.
+ */
+export const rollbackImportBatch = async (batchId: string): Promise<{ wagers_deleted: number; transactions_deleted: number }> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot roll back import');
+  }
+
+  // The database function checks that the batch belongs to the current user
+  const { data, error } = await supabase.rpc('rollback_import_batch', { p_batch_id: batchId });
+
+  if (error) {
+    console.error('Error rolling back import batch:', error.message);
+    throw new Error(error.message || 'Failed to roll back import');
+  }
+
+  console.log(`Successfully rolled back import batch: ${batchId}`, data);
+  return data;
+};
+
+// --- Schedule Settings ---
+
+/**
+ * Returns the IANA time zone the user chose in the calculator, so collection times are
+ * computed on the same clock everywhere. Falls back to the browser's zone.
+ */
+export const getPreferredTimeZone = async (): Promise<string> => {
+  const browserTimeZone = getBrowserTimeZone();
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot fetch time zone');
+  }
+
+  const { data, error } = await supabase
+    .from('user_form_data')
+    .select('time_zone')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching preferred time zone:', error.message);
+    throw new Error(error.message || 'Failed to fetch time zone');
+  }
+
+  return data?.time_zone || browserTimeZone;
+};
+
+// --- Collection Ledger ---
+
+// Sweeps Coins, Gold Coins, or real money
+export type CurrencyType = 'SC' | 'GC' | 'USD';
+
+export const CURRENCY_LABELS: Record<CurrencyType, string> = {
+  SC: 'Sweeps Coins',
+  GC: 'Gold Coins',
+  USD: 'Cash ($)',
+};
+
+// What the user entered when collecting a bonus
+export interface CollectionDetails {
+  amount: number;
+  currency: CurrencyType;
+  note?: string | null;
+  playthrough_multiplier?: number | null; // Times the coins must be wagered before redeeming
+}
+
+export interface Collection extends CollectionDetails {
+  id: string;
+  tracked_casino_id: string;
+  bonus_id: string | null; // Null for bonuses that have since been deleted
+  collected_at: string; // ISO timestamp
+  note: string | null;
+}
+
+// e.g. "$5.00" or "1,000 GC"
+export const formatCollectionAmount = ({ amount, currency }: Pick<Collection, 'amount' | 'currency'>): string =>
+  currency === 'USD' ? `$${Number(amount).toFixed(2)}` : `${Number(amount).toLocaleString()} ${currency}`;
+
+/**
+ * Fetches the user's collection ledger, newest first.
+ * @param options Optionally limit to one tracked casino or bonus, and/or a number of entries (default 50).
+ */
+export const getCollections = async (
+  options: { trackedCasinoId?: string; bonusId?: string; limit?: number } = {}
+): Promise<Collection[]> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot fetch collections');
+  }
+
+  // RLS policy handles filtering by user_id = auth.uid()
+  let query = supabase
+    .from('collections')
+    .select('id, tracked_casino_id, bonus_id, collected_at, amount, currency, note')
+    .order('collected_at', { ascending: false })
+    .limit(options.limit ?? 50);
+  if (options.trackedCasinoId) {
+    query = query.eq('tracked_casino_id', options.trackedCasinoId);
+  }
+  if (options.bonusId) {
+    query = query.eq('bonus_id', options.bonusId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching collections:', error.message);
+    throw new Error(error.message || 'Failed to fetch collections');
+  }
+
+  return data || [];
+};
+
+/**
+ * Fetches when every collection was made, grouped by tracked casino, for deriving login streaks.
+ * Pages through the whole ledger because best streaks can go back any distance.
+ */
+export const getCollectionTimesByCasino = async (): Promise<Map<string, Date[]>> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot fetch collection history');
+  }
+
+  const rows = await fetchAllPages('collection history', (from, to) => supabase
+    .from('collections')
+    .select('id, tracked_casino_id, collected_at')
+    .order('id', { ascending: true })
+    .range(from, to));
+
+  const timesByCasino = new Map<string, Date[]>();
+  for (const row of rows) {
+    const times = timesByCasino.get(row.tracked_casino_id) ?? [];
+    times.push(new Date(row.collected_at));
+    timesByCasino.set(row.tracked_casino_id, times);
+  }
+  return timesByCasino;
+};
+
+// --- Pause Windows ---
+
+// A pause of one casino (tracked_casino_id set) or of the whole account (null)
+export interface PauseWindow extends PauseRange {
+  id: string;
+  tracked_casino_id: string | null;
+}
+
+const PAUSE_WINDOW_COLUMNS = 'id, tracked_casino_id, starts_at, ends_at';
+
+// A pause window as Supabase returns it, with ISO timestamp strings
+interface PauseWindowRow {
+  id: string;
+  tracked_casino_id: string | null;
+  starts_at: string;
+  ends_at: string | null;
+}
+
+const toPauseWindow = (row: PauseWindowRow): PauseWindow => ({
+  id: row.id,
+  tracked_casino_id: row.tracked_casino_id,
+  starts_at: new Date(row.starts_at),
+  ends_at: row.ends_at ? new Date(row.ends_at) : null,
+});
+
+/**
+ * Fetches the current user's account-wide pauses (vacation mode), past and current, newest first.
+ * Per-casino pauses come with each casino as TrackedCasino.pause_windows.
+ */
+export const getAccountPauseWindows = async (): Promise<PauseWindow[]> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot fetch pauses');
+  }
+
+  // RLS policy handles filtering by user_id = auth.uid()
+  const { data, error } = await supabase
+    .from('pause_windows')
+    .select(PAUSE_WINDOW_COLUMNS)
+    .is('tracked_casino_id', null)
+    .order('starts_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching pause windows:', error.message);
+    throw new Error(error.message || 'Failed to fetch pauses');
+  }
+
+  return (data ?? []).map(toPauseWindow);
+};
+
+/**
+ * Pauses tracking from now on, for one casino or the whole account.
+ * @param trackedCasinoId The casino to pause, or null for every casino (vacation mode).
+ * @param until When tracking resumes by itself; null to pause until resumeTracking is called.
+ */
+export const pauseTracking = async (trackedCasinoId: string | null, until: Date | null): Promise<PauseWindow> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot pause tracking');
+  }
+
+  const { data, error } = await supabase
+    .from('pause_windows')
+    .insert([{
+      user_id: user.id,
+      tracked_casino_id: trackedCasinoId,
+      starts_at: new Date().toISOString(),
+      ends_at: until?.toISOString() ?? null,
+    }])
+    .select(`${PAUSE_WINDOW_COLUMNS}, tracked_casinos (casino_name)`)
+    .single()
+    .overrideTypes<PauseWindowRow & EmbeddedCasinoName, { merge: false }>();
+
+  if (error) {
+    console.error('Error pausing tracking:', error.message);
+    throw new Error(error.message || 'Failed to pause tracking');
+  }
+
+  console.log(`Successfully paused tracking for ${trackedCasinoId ?? 'all casinos'}`);
+
+  addActivityLog({
+    user_id: user.id,
+    activity_type: 'tracking_paused',
+    description: `Paused ${data.tracked_casinos?.casino_name ?? 'all casinos'}${until ? ` until ${until.toLocaleString()}` : ' until resumed'}`,
+    related_casino_id: trackedCasinoId,
+  }).catch(logError => {
+    console.error('Failed to log pause activity:', logError);
+  });
+
+  return toPauseWindow(data);
+};
+
+/**
+ * Ends a pause now. The window is kept, so streaks keep skipping the paused days.
+ * @param pauseWindowId The ID of the pause to end.
+ */
+export const resumeTracking = async (pauseWindowId: string): Promise<void> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot resume tracking');
+  }
+
+  const { data, error } = await supabase
+    .from('pause_windows')
+    .update({ ends_at: new Date().toISOString() })
+    .eq('id', pauseWindowId)
+    .eq('user_id', user.id)
+    .select('tracked_casino_id, tracked_casinos (casino_name)')
+    .single()
+    .overrideTypes<Pick<PauseWindowRow, 'tracked_casino_id'> & EmbeddedCasinoName, { merge: false }>();
+
+  if (error) {
+    console.error('Error resuming tracking:', error.message);
+    throw new Error(error.message || 'Failed to resume tracking');
+  }
+
+  console.log(`Successfully resumed tracking (pause ${pauseWindowId})`);
+
+  addActivityLog({
+    user_id: user.id,
+    activity_type: 'tracking_resumed',
+    description: `Resumed ${data.tracked_casinos?.casino_name ?? 'all casinos'}`,
+    related_casino_id: data.tracked_casino_id,
+  }).catch(logError => {
+    console.error('Failed to log resume activity:', logError);
+  });
+};
+
+// --- Casino Balances ---
+
+export type VirtualCurrency = Exclude<CurrencyType, 'USD'>;
+export type VirtualBalances = Record<VirtualCurrency, number>;
+
+// Sweeps Coins redeem for cash one to one; Gold Coins have no cash value
+export const REDEEMABLE_CURRENCY: VirtualCurrency = 'SC';
+
+// Redemptions have their own table (see Redemptions); older 'redemption' entries still count
+export type BalanceEntryKind = 'purchase' | 'wager' | 'adjustment';
+
+export const BALANCE_ENTRY_LABELS: Record<BalanceEntryKind, string> = {
+  purchase: 'Purchase',
+  wager: 'Wager result',
+  adjustment: 'Set balance',
+};
+
+// A change to a casino's balances other than a collection; deltas are signed
+export interface NewBalanceEntry {
+  kind: BalanceEntryKind;
+  sc_delta: number;
+  gc_delta: number;
+  usd_amount: number | null; // Cash paid for a purchase
+  playthrough_multiplier: number | null; // Purchases only; applies to the Sweeps Coins received
+  note: string;
+}
+
+/**
+ * Fetches the current Sweeps Coins and Gold Coins balance of each of the current user's
+ * casinos, keyed by tracked casino ID. Casinos with no coins recorded are missing from the map.
+ */
+export const getCasinoBalances = async (): Promise<Map<string, VirtualBalances>> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot fetch balances');
+  }
+
+  // The view runs with the caller's RLS, so only the user's own casinos are summed
+  const { data, error } = await supabase
+    .from('casino_balances')
+    .select('tracked_casino_id, sc_balance, gc_balance');
+
+  if (error) {
+    console.error('Error fetching casino balances:', error.message);
+    throw new Error(error.message || 'Failed to fetch balances');
+  }
+
+  return new Map((data ?? []).map(row => [
+    row.tracked_casino_id,
+    { SC: Number(row.sc_balance ?? 0), GC: Number(row.gc_balance ?? 0) },
+  ]));
+};
+
+/**
+ * Records a purchase, wager result or correction against a casino's balances.
+ * @param trackedCasinoId The casino whose balances change.
+ * @param entry Signed Sweeps Coins and Gold Coins changes, plus any cash involved.
+ */
+export const recordBalanceEntry = async (trackedCasinoId: string, entry: NewBalanceEntry): Promise<void> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot update balance');
+  }
+
+  const { data, error } = await supabase
+    .from('balance_entries')
+    .insert([{
+      user_id: user.id,
+      tracked_casino_id: trackedCasinoId,
+      ...entry,
+      note: entry.note.trim() || null,
+    }])
+    .select('id, tracked_casinos (casino_name)')
+    .single()
+    .overrideTypes<{ id: string } & EmbeddedCasinoName, { merge: false }>();
+
+  if (error) {
+    console.error('Error recording balance entry:', error.message);
+    throw new Error(error.message || 'Failed to update balance');
+  }
+
+  console.log(`Successfully recorded ${entry.kind} for casino ${trackedCasinoId}`);
+
+  const changes = [
+    entry.sc_delta !== 0 && `${entry.sc_delta > 0 ? '+' : ''}${entry.sc_delta} SC`,
+    entry.gc_delta !== 0 && `${entry.gc_delta > 0 ? '+' : ''}${entry.gc_delta} GC`,
+    entry.usd_amount && `$${entry.usd_amount.toFixed(2)}`,
+  ].filter(Boolean).join(', ');
+
+  addActivityLog({
+    user_id: user.id,
+    activity_type: 'balance_updated',
+    description: `${BALANCE_ENTRY_LABELS[entry.kind]} at ${data.tracked_casinos?.casino_name ?? 'a casino'}: ${changes}`,
+    related_casino_id: trackedCasinoId,
+  }).catch(logError => {
+    console.error('Failed to log balance activity:', logError);
+  });
+};
+
+// --- Playthrough ---
+
+/**
+ * Works out each casino's playthrough: Sweeps Coins collected or bought with a multiplier
+ * open requirements, and imported wagers (matched to casinos by name) count toward them,
+ * oldest first. Keyed by tracked casino ID; casinos without requirements are missing.
+ * @param timeZone Zone whose calendar days the wager dates are in.
+ */
+export const getPlaythroughByCasino = async (timeZone: string): Promise<Map<string, PlaythroughStatus>> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot fetch playthrough');
+  }
+
+  const [casinos, collections, purchases] = await Promise.all([
+    fetchAllPages('casinos for playthrough', (from, to) => supabase
+      .from('tracked_casinos')
+      .select('id, casino_name')
+      .order('id', { ascending: true })
+      .range(from, to)),
+    fetchAllPages('collections for playthrough', (from, to) => supabase
+      .from('collections')
+      .select('id, tracked_casino_id, collected_at, amount, playthrough_multiplier')
+      .eq('currency', 'SC')
+      .not('playthrough_multiplier', 'is', null)
+      .order('id', { ascending: true })
+      .range(from, to)),
+    fetchAllPages('purchases for playthrough', (from, to) => supabase
+      .from('balance_entries')
+      .select('id, tracked_casino_id, occurred_at, sc_delta, playthrough_multiplier')
+      .eq('kind', 'purchase')
+      .not('playthrough_multiplier', 'is', null)
+      .order('id', { ascending: true })
+      .range(from, to)),
+  ]);
+
+  const requirementsByCasino = new Map<string, PlaythroughRequirement[]>();
+  const addRequirement = (trackedCasinoId: string, openedAt: string, coins: number, multiplier: number) => {
+    const requirements = requirementsByCasino.get(trackedCasinoId) ?? [];
+    requirements.push({ opened_at: new Date(openedAt), amount: Number(coins) * Number(multiplier) });
+    requirementsByCasino.set(trackedCasinoId, requirements);
+  };
+  for (const row of collections) {
+    addRequirement(row.tracked_casino_id, row.collected_at, row.amount, row.playthrough_multiplier);
+  }
+  for (const row of purchases) {
+    addRequirement(row.tracked_casino_id, row.occurred_at, row.sc_delta, row.playthrough_multiplier);
+  }
+  if (requirementsByCasino.size === 0) return new Map();
+
+  // Imported wagers only know the casino's name
+  const casinoIdByName = new Map(casinos.map(casino => [casino.casino_name.trim().toLowerCase(), casino.id]));
+  const earliest = [...requirementsByCasino.values()].flat()
+    .reduce((min, requirement) => Math.min(min, requirement.opened_at.getTime()), Infinity);
+  // A day of slack, since wager dates are calendar days in the user's zone
+  const fromDate = new Date(earliest - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const wagerRows = await fetchAllPages('wagers for playthrough', (from, to) => supabase
+    .from('user_wagers')
+    .select('id, wager_date, casino_name, total_wagered')
+    .gte('wager_date', fromDate)
+    .order('id', { ascending: true })
+    .range(from, to));
+
+  const wagersByCasino = new Map<string, PlaythroughWager[]>();
+  for (const row of wagerRows) {
+    const trackedCasinoId = casinoIdByName.get((row.casino_name ?? '').trim().toLowerCase());
+    if (!trackedCasinoId || !row.wager_date || !row.total_wagered) continue;
+    const wagers = wagersByCasino.get(trackedCasinoId) ?? [];
+    wagers.push({ wager_date: row.wager_date, total_wagered: Number(row.total_wagered) });
+    wagersByCasino.set(trackedCasinoId, wagers);
+  }
+
+  return new Map([...requirementsByCasino].map(([trackedCasinoId, requirements]) => [
+    trackedCasinoId,
+    getPlaythroughStatus(requirements, wagersByCasino.get(trackedCasinoId) ?? [], timeZone),
+  ]));
+};
+
+// --- Redemptions ---
+
+export interface Redemption extends RedemptionTimeline {
+  id: string;
+  casino_name: string;
+  payout_method: string | null; // e.g. bank transfer, Skrill, gift card
+  pending_at: Date | null;
+  approved_at: Date | null;
+  rejected_at: Date | null;
+  note: string | null;
+}
+
+export interface NewRedemptionData {
+  amount: number;
+  fee: number;
+  payout_method: string;
+  note: string;
+}
+
+const REDEMPTION_COLUMNS = `
+  id,
+  tracked_casino_id,
+  amount,
+  fee,
+  payout_method,
+  status,
+  requested_at,
+  pending_at,
+  approved_at,
+  paid_at,
+  rejected_at,
+  note,
+  tracked_casinos (casino_name)
+`;
+
+// A redemption as Supabase returns it, with ISO timestamp strings
+interface RedemptionRow extends EmbeddedCasinoName {
+  id: string;
+  tracked_casino_id: string;
+  amount: number;
+  fee: number;
+  payout_method: string | null;
+  status: RedemptionStatus;
+  requested_at: string;
+  pending_at: string | null;
+  approved_at: string | null;
+  paid_at: string | null;
+  rejected_at: string | null;
+  note: string | null;
+}
+
+const toRedemption = ({ tracked_casinos, ...row }: RedemptionRow): Redemption => {
+  const toDate = (value: string | null) => (value ? new Date(value) : null);
+  return {
+    ...row,
+    casino_name: tracked_casinos?.casino_name ?? UNKNOWN_CASINO,
+    amount: Number(row.amount),
+    fee: Number(row.fee),
+    requested_at: new Date(row.requested_at),
+    pending_at: toDate(row.pending_at),
+    approved_at: toDate(row.approved_at),
+    paid_at: toDate(row.paid_at),
+    rejected_at: toDate(row.rejected_at),
+  };
+};
+
+/**
+ * Fetches the current user's redemptions, most recently requested first.
+ * @param trackedCasinoId Only this casino's redemptions, when given.
+ */
+export const getRedemptions = async (trackedCasinoId?: string): Promise<Redemption[]> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot fetch redemptions');
+  }
+
+  // RLS policy handles filtering by user_id = auth.uid()
+  let query = supabase
+    .from('redemptions')
+    .select(REDEMPTION_COLUMNS)
+    .order('requested_at', { ascending: false });
+  if (trackedCasinoId) {
+    query = query.eq('tracked_casino_id', trackedCasinoId);
+  }
+
+  const { data, error } = await query.overrideTypes<RedemptionRow[], { merge: false }>();
+
+  if (error) {
+    console.error('Error fetching redemptions:', error.message);
+    throw new Error(error.message || 'Failed to fetch redemptions');
+  }
+
+  return (data ?? []).map(toRedemption);
+};
+
+/**
+ * Records a redemption request. The database refuses amounts below the casino's
+ * minimum redemption (request_redemption). The coins leave the casino's balance right away.
+ * @param trackedCasinoId The casino redeemed from.
+ * @param redemptionData Sweeps Coins redeemed, fees, payout method and an optional note.
+ * @param requestedAt When it was requested, for redemptions made earlier. Defaults to now.
+ */
+export const requestRedemption = async (
+  trackedCasinoId: string,
+  redemptionData: NewRedemptionData,
+  requestedAt?: Date
+): Promise<void> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot request redemption');
+  }
+
+  // Looked up first, so a failure here can't leave a recorded redemption looking like an error
+  const { data: casinoData, error: casinoError } = await supabase
+    .from('tracked_casinos')
+    .select('casino_name')
+    .eq('id', trackedCasinoId)
+    .single();
+
+  if (casinoError) {
+    console.error('Error fetching casino for redemption:', casinoError.message);
+    throw new Error(casinoError.message || 'Failed to request redemption');
+  }
+
+  const { data, error } = await supabase.rpc('request_redemption', {
+    p_tracked_casino_id: trackedCasinoId,
+    p_amount: redemptionData.amount,
+    p_payout_method: redemptionData.payout_method,
+    p_fee: redemptionData.fee,
+    p_note: redemptionData.note,
+    p_requested_at: requestedAt?.toISOString() ?? null,
+  });
+
+  if (error) {
+    console.error('Error requesting redemption:', error.message);
+    throw new Error(error.message || 'Failed to request redemption');
+  }
+
+  console.log(`Successfully requested redemption ${data?.id} for casino ${trackedCasinoId}`);
+
+  addActivityLog({
+    user_id: user.id,
+    activity_type: 'redemption_requested',
+    description: `Requested a redemption of ${redemptionData.amount} SC from ${casinoData.casino_name}`,
+    related_casino_id: trackedCasinoId,
+  }).catch(logError => {
+    console.error('Failed to log redemption activity:', logError);
+  });
+};
+
+/**
+ * Moves a redemption to a new status and stamps when it got there.
+ * @param redemption The redemption to update.
+ * @param status Its new status.
+ * @param at When the casino made the change, if not just now.
+ */
+export const updateRedemptionStatus = async (redemption: Redemption, status: RedemptionStatus, at?: Date): Promise<void> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error('Error fetching user:', userError?.message);
+    throw new Error(userError?.message || 'User not found - cannot update redemption');
+  }
+
+  const { error } = await supabase
+    .from('redemptions')
+    .update({ status, [`${status}_at`]: (at ?? new Date()).toISOString() })
+    .eq('id', redemption.id)
+    .eq('user_id', user.id);
+
+  if (error) {
+    console.error('Error updating redemption:', error.message);
+    throw new Error(error.message || 'Failed to update redemption');
+  }
+
+  console.log(`Successfully marked redemption ${redemption.id} as ${status}`);
+
+  addActivityLog({
+    user_id: user.id,
+    activity_type: `redemption_${status}`,
+    description: `Redemption of ${redemption.amount} SC from ${redemption.casino_name} is now ${status}`,
+    related_casino_id: redemption.tracked_casino_id,
+  }).catch(logError => {
+    console.error('Failed to log redemption activity:', logError);
+  });
+};
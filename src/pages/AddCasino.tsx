@@ -1,21 +1,58 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { addTrackedCasino } from '../lib/supabaseClient'; // Import the API function
+import { addTrackedCasino, normalizeSiteUrl, getCasinoCatalog, CatalogCasino, CURRENCY_LABELS } from '../lib/supabaseClient'; // Import the API function
+import CasinoBonusFields, {
+  bonusFormStateFromBonus,
+  bonusFormToBonusData,
+  defaultBonusFormState,
+  validateBonusForm,
+} from '../components/CasinoBonusFields';
 
 const AddCasino: React.FC = () => {
   const [casinoName, setCasinoName] = useState('');
   const [bonusDescription, setBonusDescription] = useState('');
-  const [interval, setInterval] = useState(''); // Renamed from frequency
+  const [siteUrl, setSiteUrl] = useState('');
+  const [minRedemption, setMinRedemption] = useState('');
+  const [firstBonus, setFirstBonus] = useState(defaultBonusFormState);
+  const [catalog, setCatalog] = useState<CatalogCasino[]>([]);
+  const [catalogEntry, setCatalogEntry] = useState<CatalogCasino | null>(null); // Set when the name matches the catalog
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const navigate = useNavigate();
 
+  useEffect(() => {
+    // The catalog only speeds things up, so the form works without it
+    getCasinoCatalog()
+      .then(setCatalog)
+      .catch(err => console.error('Error fetching casino catalog:', err));
+  }, []);
+
+  // Picking a known casino fills in its website and usual daily bonus; everything stays editable
+  const handleNameChange = (name: string) => {
+    setCasinoName(name);
+    const match = catalog.find(entry => entry.name.toLowerCase() === name.trim().toLowerCase()) ?? null;
+    if (match && match !== catalogEntry) {
+      setSiteUrl(match.site_url ?? '');
+      setFirstBonus(bonusFormStateFromBonus(match.default_bonus));
+    }
+    setCatalogEntry(match);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
 
-    if (!casinoName || interval === '' || parseInt(interval, 10) <= 0) {
-      setError('Casino Name and a positive Collection Interval (hours) are required.');
+    if (!casinoName) {
+      setError('Casino Name is required.');
+      return;
+    }
+    if (minRedemption !== '' && (isNaN(Number(minRedemption)) || Number(minRedemption) < 0)) {
+      setError('Minimum Redemption must be a number of 0 or more.');
+      return;
+    }
+    const bonusError = validateBonusForm(firstBonus);
+    if (bonusError) {
+      setError(bonusError);
       return;
     }
 
@@ -23,12 +60,15 @@ const AddCasino: React.FC = () => {
     const casinoData = {
       casino_name: casinoName,
       bonus_description: bonusDescription || null, // Send null if empty
-      collection_interval_hours: parseInt(interval, 10), // Corrected property name
+      site_url: normalizeSiteUrl(siteUrl),
+      catalog_casino_id: catalogEntry?.id ?? null,
+      min_redemption: minRedemption === '' ? null : Number(minRedemption),
     };
+    const bonusData = bonusFormToBonusData(firstBonus);
 
     try {
-      console.log('Submitting to API:', casinoData);
-      await addTrackedCasino(casinoData);
+      console.log('Submitting to API:', casinoData, bonusData);
+      await addTrackedCasino(casinoData, bonusData);
 
       // On success, navigate back to dashboard
       navigate('/dashboard');
@@ -53,16 +93,59 @@ const AddCasino: React.FC = () => {
             type="text"
             id="casinoName"
             value={casinoName}
-            onChange={(e) => setCasinoName(e.target.value)}
+            onChange={(e) => handleNameChange(e.target.value)}
+            list="casinoCatalog"
+            autoComplete="off"
             required
             className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
-            placeholder="e.g., Lucky Dragon Casino"
+            placeholder="Start typing, e.g., Chumba Casino"
+          />
+          <datalist id="casinoCatalog">
+            {catalog.map(entry => (
+              <option key={entry.name} value={entry.name} />
+            ))}
+          </datalist>
+          {catalogEntry && (
+            <p className="mt-1 text-xs text-gray-500">
+              Known casino, pays in {catalogEntry.currency_types.map(currency => CURRENCY_LABELS[currency]).join(' and ')}.
+              Its website and usual daily bonus are filled in below; change anything that differs for you.
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="siteUrl" className="block text-sm font-medium text-gray-700 mb-1">
+            Website (Optional)
+          </label>
+          <input
+            type="text"
+            id="siteUrl"
+            value={siteUrl}
+            onChange={(e) => setSiteUrl(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            placeholder="e.g., https://www.luckydragon.com"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="minRedemption" className="block text-sm font-medium text-gray-700 mb-1">
+            Minimum Redemption in SC (Optional)
+          </label>
+          <input
+            type="number"
+            id="minRedemption"
+            min="0"
+            step="any"
+            value={minRedemption}
+            onChange={(e) => setMinRedemption(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            placeholder="e.g., 100"
           />
         </div>
 
         <div>
           <label htmlFor="bonusDescription" className="block text-sm font-medium text-gray-700 mb-1">
-            Bonus Description / Notes (Optional)
+            Casino Notes (Optional)
           </label>
           <textarea
             id="bonusDescription"
@@ -70,25 +153,14 @@ const AddCasino: React.FC = () => {
             onChange={(e) => setBonusDescription(e.target.value)}
             rows={3}
             className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-            placeholder="e.g., Daily $5 free play, must collect by midnight"
+            placeholder="e.g., Redemptions take 2-3 days, KYC done"
           />
         </div>
 
-        <div>
-          <label htmlFor="interval" className="block text-sm font-medium text-gray-700 mb-1">
-            Collection Interval (hours) <span className="text-red-500">*</span>
-          </label>
-          <input
-            type="number"
-            id="interval"
-            value={interval}
-            onChange={(e) => setInterval(e.target.value)} // Update state with the raw string value
-            required
-            min="0.1" // Allow fractional hours if needed, adjust as necessary
-            step="any" // Allow decimals
-            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
-            placeholder="e.g., 24"
-          />
+        <div className="border-t border-gray-200 pt-4">
+          <h3 className="text-sm font-semibold text-gray-800 mb-3">First Bonus</h3>
+          <p className="text-xs text-gray-500 mb-3">You can add more bonuses (wheel spins, mail-ins...) from the casino's edit page.</p>
+          <CasinoBonusFields bonus={firstBonus} onChange={setFirstBonus} disabled={loading} />
         </div>
 
         {error && (
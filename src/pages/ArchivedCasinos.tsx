@@ -0,0 +1,100 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { getInactiveTrackedCasinos, restoreTrackedCasino, TrackedCasino } from '../lib/supabaseClient';
+
+// Archived casinos and the trash, each with a Restore button
+const ArchivedCasinos: React.FC = () => {
+  const [casinos, setCasinos] = useState<TrackedCasino[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const fetchCasinos = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setCasinos(await getInactiveTrackedCasinos());
+    } catch (err: any) {
+      console.error('Error fetching archived casinos:', err);
+      setError(err.message || 'Failed to load archived casinos.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCasinos();
+  }, [fetchCasinos]);
+
+  const handleRestore = async (casino: TrackedCasino) => {
+    setRestoringId(casino.id);
+    setError(null);
+    try {
+      await restoreTrackedCasino(casino.id);
+      setCasinos(prev => prev.filter(c => c.id !== casino.id));
+    } catch (err: any) {
+      console.error('Restore Error:', err);
+      setError(err.message || 'Failed to restore casino.');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const renderList = (title: string, list: TrackedCasino[], removedAt: (casino: TrackedCasino) => string | null, emptyText: string) => (
+    <div className="bg-white rounded-lg shadow p-4">
+      <h3 className="text-lg font-semibold mb-3">{title}</h3>
+      {list.length === 0 ? (
+        <p className="text-gray-500 italic text-sm">{emptyText}</p>
+      ) : (
+        <ul className="space-y-2">
+          {list.map(casino => {
+            const removed = removedAt(casino);
+            return (
+              <li key={casino.id} className="flex justify-between items-center border-b border-gray-100 pb-2 last:border-b-0">
+                <div>
+                  <Link to={`/casino/${casino.id}`} className="font-medium block hover:text-indigo-600">{casino.casino_name}</Link>
+                  <span className="text-xs text-gray-500">
+                    {casino.bonuses.length} {casino.bonuses.length === 1 ? 'bonus' : 'bonuses'}
+                    {removed && ` · since ${format(new Date(removed), 'MMM d, yyyy')}`}
+                  </span>
+                </div>
+                <button
+                  onClick={() => handleRestore(casino)}
+                  disabled={restoringId !== null}
+                  className="px-3 py-1 text-xs font-medium text-white rounded bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  {restoringId === casino.id ? 'Restoring...' : 'Restore'}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="container mx-auto pt-4 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-semibold">Archived Casinos</h2>
+        <Link to="/dashboard" className="text-sm text-indigo-600 hover:text-indigo-800">Back to Dashboard</Link>
+      </div>
+      <p className="text-sm text-gray-600">
+        Archived and deleted casinos are hidden from the dashboard and calculator. Their bonuses,
+        collections and activity are kept, and restoring a casino brings everything back.
+      </p>
+      {error && <p className="text-red-500 italic">Error: {error}</p>}
+      {loading ? (
+        <p className="text-gray-500 italic">Loading archived casinos...</p>
+      ) : (
+        <>
+          {renderList('Archived', casinos.filter(c => !c.deleted_at), c => c.archived_at, 'No archived casinos.')}
+          {renderList('Trash', casinos.filter(c => c.deleted_at), c => c.deleted_at, 'The trash is empty.')}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ArchivedCasinos;
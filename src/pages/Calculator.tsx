@@ -1,37 +1,46 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import CasinoRewardsForm from '../components/CasinoRewardsForm';
-import { supabase } from '../lib/supabaseClient';
+import { supabase, getTrackedCasinos, TrackedCasino } from '../lib/supabaseClient';
 import { UserFormData, FormState } from '../types'; 
 import { Session } from '@supabase/supabase-js';
+import { formatDateTimeInput, getBrowserTimeZone, parseDateTimeInput } from '../lib/collectionSchedule';
 
 const convertFormStateToDbFormat = (formState: FormState): Omit<UserFormData, 'id' | 'user_id' | 'created_at' | 'updated_at'> => {
     return {
-        last_collection_time: formState.last_collection_time || null,
+        // The input shows wall-clock time in the chosen zone, not the browser's
+        last_collection_time: formState.last_collection_time
+            ? parseDateTimeInput(formState.last_collection_time, formState.time_zone)?.toISOString() ?? null
+            : null,
         expected_reward: formState.expected_reward === '' ? null : Number(formState.expected_reward),
         tax_rate: formState.tax_rate === '' ? null : Number(formState.tax_rate),
         cc_return: formState.cc_return === '' ? null : Number(formState.cc_return),
         interest_rate: formState.interest_rate === '' ? null : Number(formState.interest_rate),
         time_zone: formState.time_zone || null,
         include_weekends: formState.include_weekends,
+        casino_bonus_id: formState.casino_bonus_id || null,
+        collection_interval_hours: formState.collection_interval_hours === '' ? null : Number(formState.collection_interval_hours),
     };
 };
 
 const convertDbFormatToFormState = (dbData: UserFormData | null | undefined): FormState => {
     const now = new Date();
-    const localTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const timeZone = dbData?.time_zone ?? getBrowserTimeZone();
     return {
-        last_collection_time: dbData?.last_collection_time ? new Date(dbData.last_collection_time).toISOString().slice(0, 16) : now.toISOString().slice(0, 16),
+        last_collection_time: formatDateTimeInput(dbData?.last_collection_time ? new Date(dbData.last_collection_time) : now, timeZone),
         expected_reward: dbData?.expected_reward?.toString() ?? '',
         tax_rate: dbData?.tax_rate?.toString() ?? '',
         cc_return: dbData?.cc_return?.toString() ?? '',
         interest_rate: dbData?.interest_rate?.toString() ?? '',
-        time_zone: dbData?.time_zone ?? localTimeZone,
+        time_zone: timeZone,
         include_weekends: dbData?.include_weekends ?? true,
+        casino_bonus_id: dbData?.casino_bonus_id ?? '',
+        collection_interval_hours: dbData?.collection_interval_hours?.toString() ?? '24',
     };
 };
 
 const Calculator: React.FC = () => {
     const [userFormData, setUserFormData] = useState<UserFormData | null>(null);
+    const [trackedCasinos, setTrackedCasinos] = useState<TrackedCasino[]>([]);
     const [initialFormData, setInitialFormData] = useState<FormState | null>(null);
     const [loading, setLoading] = useState<boolean>(true);
     const [error, setError] = useState<string | null>(null);
@@ -72,6 +81,14 @@ const Calculator: React.FC = () => {
         }
     }, []);
 
+    useEffect(() => {
+        if (!session?.user?.id) return;
+        // The calculator still works without tracked casinos, so a failure here is not fatal
+        getTrackedCasinos()
+            .then(setTrackedCasinos)
+            .catch(err => console.error("Error fetching tracked casinos:", err));
+    }, [session?.user?.id]);
+
     useEffect(() => {
         if (session?.user?.id) {
             fetchFormData(session.user.id);
@@ -140,6 +157,7 @@ const Calculator: React.FC = () => {
             {saveSuccess && <p className="text-green-600 text-center mb-4">{saveSuccess}</p>}
             <CasinoRewardsForm 
                 initialData={initialFormDataMemo} 
+                trackedCasinos={trackedCasinos}
                 onSave={handleSaveData} 
                 isSaving={isSaving} 
             />
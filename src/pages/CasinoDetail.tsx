@@ -0,0 +1,335 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import MetricCard from '../components/Dashboard/MetricCard';
+import LineChart from '../components/CasinoDetail/LineChart';
+import {
+  getTrackedCasinoById,
+  getCollections,
+  getActivityLog,
+  getImportedRowsForCasino,
+  getRedemptions,
+  getCasinoBalances,
+  getPreferredTimeZone,
+  formatCollectionAmount,
+  ActivityLog,
+  Collection,
+  Redemption,
+  TrackedCasino,
+  UserTransaction,
+  UserWager,
+  VirtualBalances,
+} from '../lib/supabaseClient';
+import { REDEMPTION_STATUS_LABELS } from '../lib/redemptions';
+import { getBrowserTimeZone, getWallTime } from '../lib/collectionSchedule';
+import { getCumulativeSeries, getNetResult, getNetResultSeries, summarizeTransactions, summarizeWagers } from '../lib/casinoStats';
+
+// Rows shown per history list; the stats and charts use everything
+const HISTORY_LIMIT = 50;
+// Collections fetched for the chart and history
+const COLLECTION_LIMIT = 1000;
+
+const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
+const formatCoins = (amount: number) => Number(amount.toFixed(2)).toLocaleString();
+const formatDay = (date: string | null) => (date ? format(parseISO(date), 'MMM d, yyyy') : '—');
+const resultClassName = (amount: number) => (amount < 0 ? 'text-red-600' : 'text-green-600');
+
+// YYYY-MM-DD of an instant on the wall clock of timeZone, for charting collections by day
+const dateKeyIn = (instant: Date, timeZone: string): string => {
+  const { year, month, day } = getWallTime(instant, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+const formatDateIn = (instant: Date, timeZone: string) =>
+  new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone }).format(instant);
+const formatDateTimeIn = (instant: Date, timeZone: string) =>
+  new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit', timeZone }).format(instant);
+
+// Everything recorded for one tracked casino: stats, charts and its full history
+const CasinoDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+
+  const [casino, setCasino] = useState<TrackedCasino | null>(null);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [activity, setActivity] = useState<ActivityLog[]>([]);
+  const [wagers, setWagers] = useState<UserWager[]>([]);
+  const [transactions, setTransactions] = useState<UserTransaction[]>([]);
+  const [redemptions, setRedemptions] = useState<Redemption[]>([]);
+  const [balances, setBalances] = useState<VirtualBalances>({ SC: 0, GC: 0 });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [timeZone, setTimeZone] = useState<string>(getBrowserTimeZone());
+
+  useEffect(() => {
+    getPreferredTimeZone()
+      .then(setTimeZone)
+      .catch(err => console.error('Error fetching preferred time zone:', err));
+  }, []);
+
+  useEffect(() => {
+    if (!id) {
+      setError('No casino ID provided.');
+      setLoading(false);
+      return;
+    }
+
+    const fetchData = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const casinoData = await getTrackedCasinoById(id);
+        if (!casinoData) {
+          setError('Casino not found or you do not have permission to view it.');
+          return;
+        }
+        const [collectionData, activityData, importedData, redemptionData, balanceData] = await Promise.all([
+          getCollections({ trackedCasinoId: id, limit: COLLECTION_LIMIT }),
+          getActivityLog(HISTORY_LIMIT, id),
+          getImportedRowsForCasino(casinoData.casino_name),
+          getRedemptions(id),
+          getCasinoBalances(),
+        ]);
+        setCasino(casinoData);
+        setCollections(collectionData);
+        setActivity(activityData);
+        setWagers(importedData.wagers);
+        setTransactions(importedData.transactions);
+        setRedemptions(redemptionData);
+        setBalances(balanceData.get(id) ?? { SC: 0, GC: 0 });
+      } catch (err: any) {
+        console.error('Error fetching casino details:', err);
+        setError(err.message || 'Failed to load casino details.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [id]);
+
+  if (loading) {
+    return <p className="container mx-auto pt-4 text-gray-500 italic">Loading casino...</p>;
+  }
+
+  if (error || !casino) {
+    return (
+      <div className="container mx-auto pt-4 space-y-2">
+        <p className="text-red-500 italic">Error: {error || 'Casino not found.'}</p>
+        <Link to="/dashboard" className="text-sm text-indigo-600 hover:text-indigo-800">Back to Dashboard</Link>
+      </div>
+    );
+  }
+
+  const wagerSummary = summarizeWagers(wagers);
+  const transactionSummary = summarizeTransactions(transactions);
+  const paidOut = redemptions
+    .filter(redemption => redemption.status === 'paid')
+    .reduce((sum, redemption) => sum + Math.max(0, redemption.amount - redemption.fee), 0);
+  const scCollectedSeries = getCumulativeSeries(
+    collections
+      .filter(collection => collection.currency === 'SC')
+      .map(collection => ({ date: dateKeyIn(new Date(collection.collected_at), timeZone), value: Number(collection.amount) }))
+  );
+  // Imported rows come oldest first; the lists show the latest
+  const latestWagers = wagers.slice(-HISTORY_LIMIT).reverse();
+  const latestTransactions = transactions.slice(-HISTORY_LIMIT).reverse();
+
+  const countOf = (shown: number, total: number) => (shown < total ? `Latest ${shown} of ${total}` : `${total}`);
+  const removedAt = casino.deleted_at ?? casino.archived_at;
+
+  return (
+    <div className="container mx-auto pt-4 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-semibold">{casino.casino_name}</h2>
+          <span className="text-sm text-gray-500">
+            {casino.bonuses.length} {casino.bonuses.length === 1 ? 'bonus' : 'bonuses'}
+            {casino.last_collected_at && ` · last collected ${formatDateIn(new Date(casino.last_collected_at), timeZone)}`}
+            {removedAt && ` · ${casino.deleted_at ? 'in the trash' : 'archived'} since ${formatDateIn(new Date(removedAt), timeZone)}`}
+          </span>
+        </div>
+        <div className="space-x-4">
+          {!removedAt && (
+            <Link to={`/edit-casino/${casino.id}`} className="text-sm text-indigo-600 hover:text-indigo-800">Edit</Link>
+          )}
+          <Link to="/dashboard" className="text-sm text-indigo-600 hover:text-indigo-800">Back to Dashboard</Link>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+        <MetricCard title="Balance" value={`${formatCoins(balances.SC)} SC`} detail={`${formatCoins(balances.GC)} GC`} />
+        <MetricCard
+          title="Net Result"
+          value={<span className={resultClassName(wagerSummary.netResult)}>{formatCurrency(wagerSummary.netResult)}</span>}
+          detail={`${formatCurrency(wagerSummary.wagered)} wagered`}
+        />
+        <MetricCard
+          title="RTP"
+          value={wagerSummary.rtp === null ? '—' : `${(wagerSummary.rtp * 100).toFixed(1)}%`}
+          detail={`${wagers.length} imported ${wagers.length === 1 ? 'wager' : 'wagers'}`}
+        />
+        <MetricCard
+          title="Net Rewards"
+          value={<span className={resultClassName(transactionSummary.netRewards)}>{formatCurrency(transactionSummary.netRewards)}</span>}
+          detail={`${formatCurrency(transactionSummary.spent)} spent`}
+        />
+        <MetricCard
+          title="Redeemed"
+          value={formatCurrency(paidOut)}
+          detail={`${redemptions.length} ${redemptions.length === 1 ? 'redemption' : 'redemptions'}`}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <LineChart
+          title="Net Result Over Time"
+          points={getNetResultSeries(wagers)}
+          formatValue={formatCurrency}
+          emptyText="No imported wagers for this casino."
+        />
+        <LineChart
+          title="Sweeps Coins Collected"
+          points={scCollectedSeries}
+          formatValue={amount => `${formatCoins(amount)} SC`}
+          emptyText="No Sweeps Coins collected yet."
+        />
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-4">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-lg font-semibold">Collections</h3>
+          <span className="text-sm text-gray-500">{countOf(Math.min(collections.length, HISTORY_LIMIT), collections.length)}</span>
+        </div>
+        {collections.length === 0 ? (
+          <p className="text-gray-500 italic text-sm">No collections yet.</p>
+        ) : (
+          <ul className="max-h-72 overflow-y-auto">
+            {collections.slice(0, HISTORY_LIMIT).map(collection => (
+              <li key={collection.id} className="flex justify-between border-b border-gray-100 py-1.5 text-sm last:border-b-0">
+                <span>
+                  {formatCollectionAmount(collection)}
+                  {collection.note && <span className="text-xs text-gray-400 italic ml-2">{collection.note}</span>}
+                </span>
+                <span className="text-gray-500">{formatDateTimeIn(new Date(collection.collected_at), timeZone)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-4">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-lg font-semibold">Redemptions</h3>
+          <Link to="/redemptions" className="text-sm text-indigo-600 hover:text-indigo-800">Manage</Link>
+        </div>
+        {redemptions.length === 0 ? (
+          <p className="text-gray-500 italic text-sm">No redemptions yet.</p>
+        ) : (
+          <ul>
+            {redemptions.map(redemption => (
+              <li key={redemption.id} className="flex justify-between border-b border-gray-100 py-1.5 text-sm last:border-b-0">
+                <span>
+                  {redemption.amount} SC{redemption.fee > 0 && ` − ${formatCurrency(redemption.fee)} fees`}
+                  <span className="text-xs text-gray-500 ml-2">{REDEMPTION_STATUS_LABELS[redemption.status]}</span>
+                </span>
+                <span className="text-gray-500">
+                  {formatDateIn(new Date(redemption.requested_at), timeZone)}
+                  {redemption.paid_at && ` → ${formatDateIn(new Date(redemption.paid_at), timeZone)}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-4 overflow-x-auto">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-lg font-semibold">Imported Wagers</h3>
+          <span className="text-sm text-gray-500">{countOf(latestWagers.length, wagers.length)}</span>
+        </div>
+        {wagers.length === 0 ? (
+          <p className="text-gray-500 italic text-sm">
+            No imported wagers match this casino's name. <Link to="/upload-data" className="text-indigo-600 hover:text-indigo-800">Upload your spreadsheet</Link> to add them.
+          </p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="px-2 py-1 font-medium">Date</th>
+                <th className="px-2 py-1 font-medium">Game</th>
+                <th className="px-2 py-1 font-medium text-right">Wagered</th>
+                <th className="px-2 py-1 font-medium text-right">Won</th>
+                <th className="px-2 py-1 font-medium text-right">Net</th>
+              </tr>
+            </thead>
+            <tbody>
+              {latestWagers.map((wager, index) => {
+                const net = getNetResult(wager);
+                return (
+                  <tr key={index} className="border-b border-gray-100 last:border-b-0">
+                    <td className="px-2 py-1">{formatDay(wager.wager_date)}</td>
+                    <td className="px-2 py-1">{wager.game_played || '—'}</td>
+                    <td className="px-2 py-1 text-right">{formatCurrency(wager.total_wagered ?? 0)}</td>
+                    <td className="px-2 py-1 text-right">{formatCurrency(wager.total_won ?? 0)}</td>
+                    <td className={`px-2 py-1 text-right ${resultClassName(net)}`}>{formatCurrency(net)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-4 overflow-x-auto">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-lg font-semibold">Imported Transactions</h3>
+          <span className="text-sm text-gray-500">{countOf(latestTransactions.length, transactions.length)}</span>
+        </div>
+        {transactions.length === 0 ? (
+          <p className="text-gray-500 italic text-sm">No imported transactions match this casino's name.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="px-2 py-1 font-medium">Date</th>
+                <th className="px-2 py-1 font-medium">Type</th>
+                <th className="px-2 py-1 font-medium text-right">Spent</th>
+                <th className="px-2 py-1 font-medium text-right">Redeemed</th>
+                <th className="px-2 py-1 font-medium text-right">Taxes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {latestTransactions.map((transaction, index) => (
+                <tr key={index} className="border-b border-gray-100 last:border-b-0">
+                  <td className="px-2 py-1">{formatDay(transaction.transaction_date)}</td>
+                  <td className="px-2 py-1">{transaction.type || '—'}</td>
+                  <td className="px-2 py-1 text-right">{formatCurrency(transaction.amount_spent ?? 0)}</td>
+                  <td className="px-2 py-1 text-right">{formatCurrency(transaction.redemption_request ?? 0)}</td>
+                  <td className="px-2 py-1 text-right">{formatCurrency(transaction.tax_implications ?? 0)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-4">
+        <h3 className="text-lg font-semibold mb-3">Activity</h3>
+        {activity.length === 0 ? (
+          <p className="text-gray-500 italic text-sm">No activity recorded for this casino.</p>
+        ) : (
+          <ul className="max-h-72 overflow-y-auto">
+            {activity.map(entry => (
+              <li key={entry.id} className="flex justify-between border-b border-gray-100 py-1.5 text-sm last:border-b-0">
+                <span>{entry.description}</span>
+                <span className="text-gray-500 ml-2 whitespace-nowrap">{formatDateTimeIn(new Date(entry.created_at), timeZone)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CasinoDetail;
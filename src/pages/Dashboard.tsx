@@ -1,31 +1,104 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Link, useNavigate } from 'react-router-dom'; // Import Link and useNavigate
 import MetricCard from '../components/Dashboard/MetricCard';
-import { formatDistanceToNowStrict } from 'date-fns'; // Use strict for more precise output like "5 hours ago"
+import CheckInSession, { CheckInEntry, CheckInItem, openCasinoSite } from '../components/Dashboard/CheckInSession';
+import PauseControl from '../components/Dashboard/PauseControl';
+import BalanceForm from '../components/Dashboard/BalanceForm';
+import { formatDistanceToNowStrict, format, subDays, startOfYear } from 'date-fns'; // Use strict for more precise output like "5 hours ago"
 import { 
   getTrackedCasinos, 
   TrackedCasino, 
-  updateLastCollected, 
+  recordCollection,
+  recordCollections,
+  undoCollection,
+  getCollections,
+  CurrencyType,
+  CURRENCY_LABELS,
   getActivityLog, 
   ActivityLog,
-  deleteTrackedCasino // Import the delete function
+  deleteTrackedCasino,
+  archiveTrackedCasino,
+  getDashboardMetrics,
+  DashboardMetrics,
+  MetricsDateRange,
+  getPreferredTimeZone,
+  getCollectionTimesByCasino,
+  getAccountPauseWindows,
+  pauseTracking,
+  resumeTracking,
+  PauseWindow,
+  getCasinoBalances,
+  recordBalanceEntry,
+  NewBalanceEntry,
+  VirtualBalances,
+  REDEEMABLE_CURRENCY,
+  getPlaythroughByCasino,
+  getRedemptions,
+  Redemption
 } from '../lib/supabaseClient'; 
+import { PlaythroughStatus } from '../lib/playthrough';
+import { getAveragePayoutMs, getMoneyInFlight, isSlowRedemption } from '../lib/redemptions';
+import { getNextCollectionTime, getBrowserTimeZone, describeSchedule, getLoginStreak, parseDateTimeInput, getActivePause } from '../lib/collectionSchedule';
 
-const placeholderMetrics = {
-  totalBalance: 1234.56,
-  totalPlaythroughRequired: 5000,
-  totalPlaythroughCompleted: 1500.75,
-  totalNetRewards: 450.20,
+// How long before a login streak breaks the dashboard starts warning about it
+const STREAK_WARNING_MS = 6 * 60 * 60 * 1000;
+
+type DateRangePreset = '7d' | '30d' | '90d' | 'ytd' | 'all';
+
+const dateRangePresets: { value: DateRangePreset; label: string }[] = [
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: '90d', label: 'Last 90 days' },
+  { value: 'ytd', label: 'Year to date' },
+  { value: 'all', label: 'All time' },
+];
+
+// Converts a preset into inclusive YYYY-MM-DD bounds ending today
+const presetToDateRange = (preset: DateRangePreset): MetricsDateRange => {
+  const today = new Date();
+  const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+  switch (preset) {
+    case '7d':
+      return { from: toDateString(subDays(today, 6)), to: toDateString(today) };
+    case '30d':
+      return { from: toDateString(subDays(today, 29)), to: toDateString(today) };
+    case '90d':
+      return { from: toDateString(subDays(today, 89)), to: toDateString(today) };
+    case 'ytd':
+      return { from: toDateString(startOfYear(today)), to: toDateString(today) };
+    case 'all':
+    default:
+      return { from: null, to: null };
+  }
 };
 
 const Dashboard: React.FC = () => {
   const [trackedCasinos, setTrackedCasinos] = useState<TrackedCasino[]>([]);
+  const [collectionTimes, setCollectionTimes] = useState<Map<string, Date[]>>(new Map()); // Per casino, for login streaks
+  const [balances, setBalances] = useState<Map<string, VirtualBalances>>(new Map()); // Per casino, SC and GC
+  const [playthrough, setPlaythrough] = useState<Map<string, PlaythroughStatus>>(new Map()); // Per casino with requirements
+  const [redemptions, setRedemptions] = useState<Redemption[]>([]);
+  const [balanceFormCasinoId, setBalanceFormCasinoId] = useState<string | null>(null);
+  const [accountPauses, setAccountPauses] = useState<PauseWindow[]>([]); // Vacation mode; per-casino pauses come with each casino
   const [activityLog, setActivityLog] = useState<ActivityLog[]>([]); // State for activity log
   const [loadingCollections, setLoadingCollections] = useState(true);
   const [loadingActivity, setLoadingActivity] = useState(true); // State for activity loading
   const [collectionsError, setCollectionsError] = useState<string | null>(null);
   const [activityError, setActivityError] = useState<string | null>(null); // State for activity errors
-  const [collectingId, setCollectingId] = useState<string | null>(null); // Track which casino is being collected
+  const [collectingId, setCollectingId] = useState<string | null>(null); // Track which bonus is being collected
+  // Amount form shown under a bonus after clicking Collect
+  // collectedAt is a datetime-local value in the user's zone; '' means now
+  // playthrough is the Sweeps Coins playthrough multiplier; '' means none
+  const [collectForm, setCollectForm] = useState<{ bonusId: string; amount: string; currency: CurrencyType; playthrough: string; note: string; collectedAt: string } | null>(null);
+  const [collectFormError, setCollectFormError] = useState<string | null>(null);
+  const [undoingId, setUndoingId] = useState<string | null>(null); // Collection being undone from the activity log
+  const [checkInItems, setCheckInItems] = useState<CheckInItem[] | null>(null); // Ready bonuses when the check-in started
+  const [metrics, setMetrics] = useState<DashboardMetrics | null>(null);
+  const [loadingMetrics, setLoadingMetrics] = useState(true);
+  const [metricsError, setMetricsError] = useState<string | null>(null);
+  const [dateRangePreset, setDateRangePreset] = useState<DateRangePreset>('30d');
+  const [timeZone, setTimeZone] = useState<string>(getBrowserTimeZone());
 
   const [, setTick] = useState(0);
 
@@ -34,6 +107,14 @@ const Dashboard: React.FC = () => {
   // --- Helper Functions ---
   const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
 
+  // e.g. "Thu 12:00 AM", on the wall clock of the user's zone
+  const formatInTimeZone = (instant: Date) =>
+    new Intl.DateTimeFormat('en-US', { weekday: 'short', hour: 'numeric', minute: '2-digit', timeZone }).format(instant);
+
+  // e.g. "Oct 24, 6:00 PM"; pauses can last longer than a week
+  const formatPauseEnd = (instant: Date) =>
+    new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone }).format(instant);
+
   const calculateTimeRemaining = (nextCollectionTime: Date | null): string => {
     if (!nextCollectionTime) return 'Never';
     const now = new Date();
@@ -58,15 +139,40 @@ const Dashboard: React.FC = () => {
     try {
       setLoadingCollections(true);
       setCollectionsError(null);
-      const data = await getTrackedCasinos();
+      const [data, pauses, casinoBalances, casinoPlaythrough, redemptionData, times] = await Promise.all([
+        getTrackedCasinos(),
+        getAccountPauseWindows(),
+        getCasinoBalances().catch(err => {
+          console.error('Error fetching casino balances:', err);
+          return new Map<string, VirtualBalances>();
+        }),
+        getPlaythroughByCasino(timeZone).catch(err => {
+          console.error('Error fetching playthrough:', err);
+          return new Map<string, PlaythroughStatus>();
+        }),
+        getRedemptions().catch(err => {
+          console.error('Error fetching redemptions:', err);
+          return [] as Redemption[];
+        }),
+        // Streaks are extra information, so the list still loads without them
+        getCollectionTimesByCasino().catch(err => {
+          console.error('Error fetching collection history:', err);
+          return new Map<string, Date[]>();
+        }),
+      ]);
       setTrackedCasinos(data);
+      setAccountPauses(pauses);
+      setBalances(casinoBalances);
+      setPlaythrough(casinoPlaythrough);
+      setRedemptions(redemptionData);
+      setCollectionTimes(times);
     } catch (err: any) {
       setCollectionsError(err.message || 'Failed to fetch collections');
       console.error('Fetch Collections Error:', err);
     } finally {
       setLoadingCollections(false);
     }
-  }, []);
+  }, [timeZone]); // Wager days for playthrough are counted in the user's zone
 
   const fetchActivityLog = useCallback(async () => {
     setLoadingActivity(true);
@@ -83,11 +189,36 @@ const Dashboard: React.FC = () => {
     }
   }, []);
 
+  const fetchMetrics = useCallback(async (preset: DateRangePreset) => {
+    setLoadingMetrics(true);
+    setMetricsError(null);
+    try {
+      const data = await getDashboardMetrics(presetToDateRange(preset));
+      setMetrics(data);
+    } catch (err: any) {
+      console.error('Error fetching dashboard metrics:', err);
+      setMetricsError(err.message || 'Failed to load metrics.');
+    } finally {
+      setLoadingMetrics(false);
+    }
+  }, []);
+
   useEffect(() => {
     fetchCollections();
     fetchActivityLog();
   }, [fetchCollections, fetchActivityLog]);
 
+  useEffect(() => {
+    fetchMetrics(dateRangePreset);
+  }, [fetchMetrics, dateRangePreset]);
+
+  useEffect(() => {
+    // Weekend rules follow the zone chosen in the calculator; the browser's zone is a fine fallback
+    getPreferredTimeZone()
+      .then(setTimeZone)
+      .catch(err => console.error('Error fetching preferred time zone:', err));
+  }, []);
+
   useEffect(() => {
     const intervalId = setInterval(() => {
       setTick(prevTick => prevTick + 1);
@@ -95,38 +226,153 @@ const Dashboard: React.FC = () => {
     return () => clearInterval(intervalId);
   }, []);
 
+  const byNextCollection = (
+    a: { timeRemaining: string; nextCollectionTime: Date | null; activePause: PauseWindow | null },
+    b: { timeRemaining: string; nextCollectionTime: Date | null; activePause: PauseWindow | null }
+  ) => {
+    // Paused casinos go last, whatever their schedule says
+    if (a.activePause || b.activePause) return a.activePause ? (b.activePause ? 0 : 1) : -1;
+    if (a.timeRemaining === 'Now' && b.timeRemaining !== 'Now') return -1;
+    if (a.timeRemaining !== 'Now' && b.timeRemaining === 'Now') return 1;
+    if (a.timeRemaining === 'Now' && b.timeRemaining === 'Now') return 0;
+    // Casinos without bonuses go last
+    if (!a.nextCollectionTime || !b.nextCollectionTime) return a.nextCollectionTime ? -1 : b.nextCollectionTime ? 1 : 0;
+    return a.nextCollectionTime.getTime() - b.nextCollectionTime.getTime();
+  };
+
+  const activeAccountPause = getActivePause(accountPauses);
+
+  // Only Sweeps Coins are worth money; Gold Coins are counted but never valued in dollars
+  const noBalance: VirtualBalances = { SC: 0, GC: 0 };
+  const balanceOf = (casinoId: string) => balances.get(casinoId) ?? noBalance;
+  const redeemableTotal = trackedCasinos.reduce((sum, casino) => sum + balanceOf(casino.id)[REDEEMABLE_CURRENCY], 0);
+  const goldCoinTotal = trackedCasinos.reduce((sum, casino) => sum + balanceOf(casino.id).GC, 0);
+  const formatCoins = (amount: number) => amount.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+  // Redemptions waiting longer than their casino usually takes to pay
+  const averagePayoutMs = getAveragePayoutMs(redemptions);
+  const slowRedemptions = redemptions.filter(redemption => isSlowRedemption(redemption, averagePayoutMs));
+
+  // Sweeps Coins still to wager, and casinos whose coins have been played through
+  const playthroughOf = (casinoId: string) => playthrough.get(casinoId) ?? null;
+  const isRedeemable = (casinoId: string) =>
+    playthroughOf(casinoId)?.remaining === 0 && balanceOf(casinoId)[REDEEMABLE_CURRENCY] > 0;
+  const playthroughTotals = trackedCasinos.reduce(
+    (totals, casino) => {
+      const status = playthroughOf(casino.id);
+      return status
+        ? { required: totals.required + status.required, remaining: totals.remaining + status.remaining }
+        : totals;
+    },
+    { required: 0, remaining: 0 }
+  );
+
+  // Each casino with its bonuses, soonest first; casinos are ordered by their soonest bonus.
+  // While a casino is paused nothing of it is due; once it resumes its schedule simply picks
+  // up again, so a bonus that came due during the pause is ready once, not overdue.
   const upcomingCollections = trackedCasinos
-    .map(collection => {
-      const lastCollectedTime = collection.last_collected_at ? collection.last_collected_at.getTime() : 0;
-      const nextCollectionTime = lastCollectedTime !== 0
-          ? new Date(lastCollectedTime + collection.collection_interval_hours * 60 * 60 * 1000)
-          : new Date(Date.now() + collection.collection_interval_hours * 60 * 60 * 1000);
+    .map(casino => {
+      const pauses = [...casino.pause_windows, ...accountPauses];
+      const casinoPause = getActivePause(casino.pause_windows);
+      const activePause = casinoPause ?? activeAccountPause;
+
+      const bonuses = casino.bonuses
+        .map(bonus => {
+          // Same schedule the calculator uses, including the bonus's weekend rule
+          const calculatedNextTime = getNextCollectionTime(bonus, bonus.last_collected_at, timeZone);
 
-      const calculatedNextTime = collection.last_collected_at
-          ? new Date(collection.last_collected_at.getTime() + collection.collection_interval_hours * 60 * 60 * 1000)
-          : new Date();
+          return {
+            ...bonus,
+            schedule: describeSchedule(bonus),
+            nextCollectionTime: calculatedNextTime,
+            timeRemaining: activePause ? 'Paused' : calculateTimeRemaining(calculatedNextTime),
+            activePause
+          };
+        })
+        .sort(byNextCollection);
+
+      // A casino whose bonuses all skip weekends can't expect a weekend login; paused days don't count either
+      const skipWeekends = casino.bonuses.length > 0 && casino.bonuses.every(bonus => !bonus.include_weekends);
+      const streak = getLoginStreak(collectionTimes.get(casino.id) ?? [], timeZone, skipWeekends, new Date(), pauses);
+      const streakAtRisk = !activePause && streak.breaksAt !== null && streak.breaksAt.getTime() - Date.now() <= STREAK_WARNING_MS;
 
       return {
-        ...collection,
-        id: collection.id,
-        name: collection.casino_name,
-        interval: collection.collection_interval_hours,
-        nextCollectionTime: calculatedNextTime,
-        timeRemaining: calculateTimeRemaining(calculatedNextTime)
+        ...casino,
+        name: casino.casino_name,
+        bonuses,
+        streak,
+        streakAtRisk,
+        casinoPause,
+        activePause,
+        nextCollectionTime: bonuses.length > 0 ? bonuses[0].nextCollectionTime : null,
+        timeRemaining: activePause ? 'Paused' : bonuses.length > 0 ? bonuses[0].timeRemaining : 'Never'
       };
     })
-    .sort((a, b) => {
-        if (a.timeRemaining === 'Now' && b.timeRemaining !== 'Now') return -1;
-        if (a.timeRemaining !== 'Now' && b.timeRemaining === 'Now') return 1;
-        if (a.timeRemaining === 'Now' && b.timeRemaining === 'Now') return 0;
-        return a.nextCollectionTime.getTime() - b.nextCollectionTime.getTime();
-    });
-
-  const handleCollect = async (id: string) => {
+    .sort(byNextCollection);
+
+  // Every bonus that can be collected now, grouped by casino (paused casinos are never 'Now')
+  const readyBonuses: CheckInItem[] = upcomingCollections.flatMap(casino =>
+    casino.bonuses
+      .filter(bonus => bonus.timeRemaining === 'Now')
+      .map(bonus => ({ casinoName: casino.name, siteUrl: casino.site_url, bonus }))
+  );
+
+  const handleStartCheckIn = () => {
+    if (readyBonuses.length === 0) return;
+    setCollectForm(null);
+    setCheckInItems(readyBonuses);
+    openCasinoSite(readyBonuses[0].siteUrl); // Still inside the click, so the browser allows it
+  };
+
+  // Saves the whole check-in in one request, then refreshes the lists once
+  const handleFinishCheckIn = async (entries: CheckInEntry[]) => {
+    await recordCollections(entries);
+    await fetchCollections();
+    await fetchActivityLog();
+  };
+
+  // Opens the amount form, pre-filled with the bonus's usual value and last-used currency
+  const handleCollect = async (bonusId: string) => {
+    const bonus = trackedCasinos.flatMap(casino => casino.bonuses).find(b => b.id === bonusId);
+    setCollectFormError(null);
+    setCollectForm({ bonusId, amount: bonus?.bonus_value?.toString() ?? '', currency: 'SC', playthrough: '', note: '', collectedAt: '' });
+
+    try {
+      const [lastCollection] = await getCollections({ bonusId, limit: 1 });
+      if (lastCollection) {
+        setCollectForm(prev => prev && prev.bonusId === bonusId ? { ...prev, currency: lastCollection.currency } : prev);
+      }
+    } catch (err: any) {
+      // Falling back to Sweeps Coins is fine
+      console.error('Error fetching last collection:', err);
+    }
+  };
+
+  const handleConfirmCollect = async () => {
+    if (!collectForm) return;
+    const amount = Number(collectForm.amount);
+    if (collectForm.amount.trim() === '' || isNaN(amount) || amount < 0) {
+      setCollectFormError('Enter the amount collected (0 or more).');
+      return;
+    }
+    const collectedAt = collectForm.collectedAt ? parseDateTimeInput(collectForm.collectedAt, timeZone) : undefined;
+    if (collectedAt === null || (collectedAt && collectedAt.getTime() > Date.now())) {
+      setCollectFormError('The collection time must be a valid time in the past.');
+      return;
+    }
+    const playthrough = collectForm.currency === 'SC' && collectForm.playthrough.trim() !== '' ? Number(collectForm.playthrough) : null;
+    if (playthrough !== null && (isNaN(playthrough) || playthrough <= 0)) {
+      setCollectFormError('Playthrough must be a number above 0, or blank for none.');
+      return;
+    }
+
+    const id = collectForm.bonusId;
     setCollectingId(id);
     setCollectionsError(null);
+    setCollectFormError(null);
     try {
-      await updateLastCollected(id);
+      await recordCollection(id, { amount, currency: collectForm.currency, note: collectForm.note, playthrough_multiplier: playthrough }, collectedAt);
+      setCollectForm(null);
       console.log(`Successfully collected from ${id}. Refetching collections...`);
       await fetchCollections();
       await fetchActivityLog(); // Refetch activity log after collection too
@@ -138,35 +384,70 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  const handleUndo = async (log: ActivityLog) => {
+    if (!log.related_collection_id) return;
+    if (!window.confirm(`Undo "${log.description}"? The bonus goes back to its previous collection time.`)) return;
+
+    setUndoingId(log.related_collection_id);
+    setActivityError(null);
+    try {
+      await undoCollection(log.related_collection_id);
+      await fetchCollections();
+      await fetchActivityLog();
+    } catch (err: any) {
+      console.error('Undo Error:', err);
+      setActivityError(err.message || 'Failed to undo collection');
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  const handleRecordBalance = async (trackedCasinoId: string, entry: NewBalanceEntry) => {
+    await recordBalanceEntry(trackedCasinoId, entry);
+    await fetchCollections();
+    await fetchActivityLog();
+  };
+
+  // Pauses one casino, or the whole account when trackedCasinoId is null
+  const handlePause = async (trackedCasinoId: string | null, until: Date | null) => {
+    await pauseTracking(trackedCasinoId, until);
+    await fetchCollections();
+    await fetchActivityLog();
+  };
+
+  const handleResume = async (pause: PauseWindow) => {
+    await resumeTracking(pause.id);
+    await fetchCollections();
+    await fetchActivityLog();
+  };
+
   const handleEdit = (id: string) => {
     console.log("Edit clicked for:", id);
     // TODO: Navigate to edit page or open modal
     alert(`Edit functionality not yet implemented for ID: ${id}`); 
   };
 
-  const handleDelete = async (id: string) => {
+  // Archiving (closed or banned casinos) and deleting both keep the history and can be undone
+  // from the Archived Casinos page, so a plain confirm is enough
+  const handleRemove = async (id: string, action: 'archive' | 'delete') => {
     // Find the casino name for a more user-friendly confirmation message
-    const casinoToDelete = trackedCasinos.find(casino => casino.id === id);
-    const casinoName = casinoToDelete ? casinoToDelete.casino_name : 'this casino';
+    const casinoToRemove = trackedCasinos.find(casino => casino.id === id);
+    const casinoName = casinoToRemove ? casinoToRemove.casino_name : 'this casino';
+    const question = action === 'archive'
+      ? `Archive ${casinoName}? It will be hidden from the dashboard but its history is kept.`
+      : `Move ${casinoName} to the trash? You can restore it from Archived Casinos.`;
 
-    if (window.confirm(`Are you sure you want to permanently delete ${casinoName}?`)) {
-      // Optional: Set a deleting state here if needed
-      // setDeletingId(id);
+    if (window.confirm(question)) {
       setCollectionsError(null); // Clear previous errors
       try {
-        await deleteTrackedCasino(id);
-        console.log(`Successfully deleted casino ${id}`);
-        // Refresh the list after deletion
+        await (action === 'archive' ? archiveTrackedCasino(id) : deleteTrackedCasino(id));
+        console.log(`Successfully ${action}d casino ${id}`);
+        // Refresh the list and the activity log, which records the change
         await fetchCollections(); 
-        // Optionally refresh activity log if you decide to log deletions
-        // await fetchActivityLog(); 
+        await fetchActivityLog(); 
       } catch (err: any) {
-        console.error('Delete Error:', err);
-        setCollectionsError(err.message || 'Failed to delete casino');
-        // Optional: Show error to user via toast/alert
-      } finally {
-        // Optional: Clear deleting state here
-        // setDeletingId(null);
+        console.error(`${action === 'archive' ? 'Archive' : 'Delete'} Error:`, err);
+        setCollectionsError(err.message || `Failed to ${action} casino`);
       }
     }
   };
@@ -176,88 +457,344 @@ const Dashboard: React.FC = () => {
       {/* Header with Add Button */}
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-semibold">Dashboard</h2>
-        <Link
-          to="/add-casino"
-          className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-        >
-          Track New Casino
-        </Link>
+        <div className="flex items-center space-x-4">
+          <PauseControl
+            activePause={activeAccountPause}
+            pauseLabel="Vacation mode"
+            timeZone={timeZone}
+            formatTime={formatPauseEnd}
+            onPause={(until) => handlePause(null, until)}
+            onResume={handleResume}
+          />
+          <Link to="/redemptions" className="text-sm text-indigo-600 hover:text-indigo-800">
+            Redemptions
+          </Link>
+          <Link to="/archived-casinos" className="text-sm text-indigo-600 hover:text-indigo-800">
+            Archived Casinos
+          </Link>
+          <Link
+            to="/add-casino"
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Track New Casino
+          </Link>
+        </div>
       </div>
 
-      {/* Key Metrics Section (Still using placeholders) */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+      {activeAccountPause && (
+        <div className="mb-6 bg-indigo-50 border border-indigo-200 text-indigo-800 text-sm px-3 py-2 rounded">
+          Vacation mode is on{activeAccountPause.ends_at && ` until ${formatPauseEnd(activeAccountPause.ends_at)}`}.
+          Nothing is due and streaks are kept until tracking resumes.
+        </div>
+      )}
+
+      {slowRedemptions.length > 0 && (
+        <div className="mb-6 bg-yellow-50 border border-yellow-300 text-yellow-800 text-sm px-3 py-2 rounded">
+          <strong className="font-semibold">Redemptions taking longer than usual:</strong>
+          <ul className="mt-1 list-disc list-inside">
+            {slowRedemptions.map(redemption => (
+              <li key={redemption.id}>
+                {redemption.casino_name}: {redemption.amount} SC requested {formatDistanceToNowStrict(redemption.requested_at, { addSuffix: true })}
+              </li>
+            ))}
+          </ul>
+          <Link to="/redemptions" className="text-indigo-600 hover:text-indigo-800">Update their status</Link>
+        </div>
+      )}
+
+      {/* Key Metrics Section (computed from imported wagers and transactions) */}
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold">Key Metrics</h3>
+        <select
+          value={dateRangePreset}
+          onChange={(e) => setDateRangePreset(e.target.value as DateRangePreset)}
+          className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          {dateRangePresets.map(preset => (
+            <option key={preset.value} value={preset.value}>{preset.label}</option>
+          ))}
+        </select>
+      </div>
+      {metricsError && <p className="text-red-500 italic mb-3">Error: {metricsError}</p>}
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4 mb-4">
+        <MetricCard
+          title="Redeemable Balance"
+          value={loadingCollections ? '—' : formatCurrency(redeemableTotal)}
+          detail={loadingCollections ? undefined : `Sweeps Coins across tracked casinos, plus ${formatCoins(goldCoinTotal)} GC with no cash value`}
+        />
         <MetricCard
-          title="Total Balance"
-          value={formatCurrency(placeholderMetrics.totalBalance)}
+          title="Playthrough Remaining"
+          value={loadingCollections ? '—' : `${formatCoins(playthroughTotals.remaining)} SC`}
+          detail={loadingCollections ? undefined : `${formatCoins(playthroughTotals.required - playthroughTotals.remaining)} of ${formatCoins(playthroughTotals.required)} SC wagered · ${trackedCasinos.filter(casino => isRedeemable(casino.id)).length} casinos redeemable`}
         />
         <MetricCard
-          title="Playthrough Progress"
-          value={`${formatCurrency(placeholderMetrics.totalPlaythroughCompleted)} / ${formatCurrency(placeholderMetrics.totalPlaythroughRequired)}`}
+          title="Money in Flight"
+          value={loadingCollections ? '—' : formatCurrency(getMoneyInFlight(redemptions))}
+          detail={slowRedemptions.length > 0 ? `${slowRedemptions.length} taking longer than usual` : undefined}
         />
         <MetricCard
           title="Total Net Rewards"
-          value={formatCurrency(placeholderMetrics.totalNetRewards)}
+          value={loadingMetrics || !metrics ? '—' : formatCurrency(metrics.totalNetRewards)}
+        />
+        <MetricCard
+          title="Casinos With Activity"
+          value={loadingMetrics || !metrics ? '—' : metrics.perCasino.length}
         />
-        <div className="bg-white p-4 rounded-lg shadow flex items-center justify-center text-gray-400">
-          <span>More Metrics...</span>
-        </div>
       </div>
 
+      {/* Per-casino breakdown of the same metrics */}
+      {!loadingMetrics && metrics && metrics.perCasino.length > 0 && (
+        <div className="bg-white rounded-lg shadow mb-8 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-100">
+                <th className="px-4 py-2 font-medium">Casino</th>
+                <th className="px-4 py-2 font-medium text-right">Balance</th>
+                <th className="px-4 py-2 font-medium text-right">Net Rewards</th>
+              </tr>
+            </thead>
+            <tbody>
+              {metrics.perCasino.map(casino => (
+                <tr key={casino.casino_name} className="border-b border-gray-100 last:border-b-0">
+                  <td className="px-4 py-2 font-medium">{casino.casino_name}</td>
+                  <td className="px-4 py-2 text-right">{formatCurrency(casino.balance)}</td>
+                  <td className={`px-4 py-2 text-right ${casino.netRewards < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatCurrency(casino.netRewards)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {!loadingMetrics && metrics && metrics.perCasino.length === 0 && (
+        <p className="text-gray-500 italic mb-8">
+          No imported wagers or transactions in this range. <Link to="/upload-data" className="text-indigo-600 hover:text-indigo-800">Upload your spreadsheet</Link> to see metrics.
+        </p>
+      )}
+
+      {checkInItems && (
+        <CheckInSession items={checkInItems} onFinish={handleFinishCheckIn} onClose={() => setCheckInItems(null)} />
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         <div className="bg-white rounded-lg shadow pt-4">
-          <h3 className="text-lg font-semibold mb-3 px-4">Upcoming Collections</h3>
+          <div className="flex justify-between items-center mb-3 px-4">
+            <h3 className="text-lg font-semibold">Upcoming Collections</h3>
+            {!checkInItems && readyBonuses.length > 0 && (
+              <button
+                onClick={handleStartCheckIn}
+                className="px-3 py-1 text-xs font-medium text-white rounded bg-green-500 hover:bg-green-600 transition-colors"
+              >
+                Check in ({readyBonuses.length} ready)
+              </button>
+            )}
+          </div>
           {loadingCollections ? (
             <p className="text-gray-500 italic px-4">Loading collections...</p>
           ) : collectionsError ? (
             <p className="text-red-500 italic px-4">Error: {collectionsError}</p>
           ) : upcomingCollections.length > 0 ? (
+            <>
+            {upcomingCollections.some(casino => casino.streakAtRisk) && (
+              <div className="mx-4 mb-3 bg-yellow-50 border border-yellow-300 text-yellow-800 text-sm px-3 py-2 rounded">
+                <strong className="font-semibold">Streaks about to break:</strong>
+                <ul className="mt-1 list-disc list-inside">
+                  {upcomingCollections.filter(casino => casino.streakAtRisk).map(casino => (
+                    <li key={casino.id}>
+                      {casino.name}: {casino.streak.current}-day streak ends in {calculateTimeRemaining(casino.streak.breaksAt)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
             <ul className="space-y-3 px-4 max-h-96 overflow-y-auto">
-              {upcomingCollections.map((collection) => {
-                const isCollectingThis = collectingId === collection.id;
-                return (
-                  <li key={collection.id} className="flex justify-between items-center border-b border-gray-100 py-2 last:border-b-0">
+              {upcomingCollections.map((casino) => (
+                <li key={casino.id} className="border-b border-gray-100 py-2 last:border-b-0">
+                  <div className="flex justify-between items-center">
                     <div>
-                      <span className="font-medium">{collection.name}</span>
-                      <span className="text-xs text-gray-500 block">Interval: {collection.interval}h</span>
-                      {collection.bonus_description && (
-                        <span className="text-xs text-gray-400 block italic">{collection.bonus_description}</span>
+                      <Link to={`/casino/${casino.id}`} className="font-medium hover:text-indigo-600">{casino.name}</Link>
+                      {casino.streak.best > 1 && (
+                        <span className={`text-xs block ${casino.streakAtRisk ? 'text-yellow-700 font-semibold' : 'text-gray-500'}`}>
+                          Streak: {casino.streak.current} {casino.streak.current === 1 ? 'day' : 'days'} (best {casino.streak.best})
+                          {casino.streak.breaksAt && ` · collect before ${formatInTimeZone(casino.streak.breaksAt)} to keep it`}
+                        </span>
                       )}
-                    </div>
-                    <div className="text-right">
-                      <span className={`text-sm font-semibold block mb-1 ${collection.timeRemaining === 'Now' ? 'text-green-600' : 'text-gray-700'}`}>
-                        {collection.timeRemaining}
-                      </span>
-                      <div className="flex items-center space-x-1.5 ml-2"> {/* Container for buttons */}
+                      <span className="text-xs text-gray-500 block">
+                        {formatCoins(balanceOf(casino.id).SC)} SC · {formatCoins(balanceOf(casino.id).GC)} GC
                         <button
-                          // Navigate to the edit page for this specific casino ID
-                          onClick={() => navigate(`/edit-casino/${collection.id}`)} 
-                          className="px-2 py-1 text-xs font-medium text-blue-600 hover:text-blue-800 rounded bg-blue-100 hover:bg-blue-200 transition-colors disabled:opacity-50"
+                          onClick={() => setBalanceFormCasinoId(balanceFormCasinoId === casino.id ? null : casino.id)}
+                          className="ml-2 text-indigo-600 hover:text-indigo-800"
                         >
-                          Edit
+                          Update
                         </button>
-                        <button
-                          onClick={() => handleDelete(collection.id)} // Placeholder for delete handler
-                          className="px-2 py-1 text-xs font-medium text-red-600 hover:text-red-800 rounded bg-red-100 hover:bg-red-200 transition-colors disabled:opacity-50"
-                          disabled={collectingId === collection.id} // Disable delete while collecting
-                        >
-                          Delete
-                        </button>
-                        <button
-                          onClick={() => handleCollect(collection.id)}
-                          disabled={collectingId === collection.id || collection.timeRemaining !== 'Now'}
-                          className={`px-3 py-1 text-xs font-medium rounded transition-colors ${collection.timeRemaining === 'Now' && collectingId !== collection.id
-                            ? 'bg-green-500 text-white hover:bg-green-600' 
-                            : 'bg-gray-300 text-gray-600 cursor-not-allowed'
-                          } ${collectingId === collection.id ? 'opacity-50 animate-pulse' : ''}`}
-                        >
-                          {collectingId === collection.id ? 'Collecting...' : collection.timeRemaining === 'Now' ? 'Collect' : collection.timeRemaining}
-                        </button>
-                      </div>
+                      </span>
+                      {isRedeemable(casino.id) ? (
+                        <span className="text-xs text-green-700 font-semibold block">
+                          Playthrough done: {formatCoins(balanceOf(casino.id)[REDEEMABLE_CURRENCY])} SC redeemable
+                        </span>
+                      ) : (playthroughOf(casino.id)?.remaining ?? 0) > 0 && (
+                        <span className="text-xs text-gray-500 block">
+                          Playthrough: {formatCoins(playthroughOf(casino.id)!.remaining)} SC left to wager
+                        </span>
+                      )}
+                      {casino.bonus_description && (
+                        <span className="text-xs text-gray-400 block italic">{casino.bonus_description}</span>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-1.5 ml-2"> {/* Container for buttons */}
+                      <PauseControl
+                        activePause={casino.casinoPause}
+                        pauseLabel="Pause"
+                        timeZone={timeZone}
+                        formatTime={formatPauseEnd}
+                        onPause={(until) => handlePause(casino.id, until)}
+                        onResume={handleResume}
+                      />
+                      <button
+                        // Navigate to the edit page for this specific casino ID
+                        onClick={() => navigate(`/edit-casino/${casino.id}`)} 
+                        className="px-2 py-1 text-xs font-medium text-blue-600 hover:text-blue-800 rounded bg-blue-100 hover:bg-blue-200 transition-colors disabled:opacity-50"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleRemove(casino.id, 'archive')}
+                        className="px-2 py-1 text-xs font-medium text-gray-600 hover:text-gray-800 rounded bg-gray-100 hover:bg-gray-200 transition-colors disabled:opacity-50"
+                        disabled={casino.bonuses.some(bonus => bonus.id === collectingId)}
+                      >
+                        Archive
+                      </button>
+                      <button
+                        onClick={() => handleRemove(casino.id, 'delete')}
+                        className="px-2 py-1 text-xs font-medium text-red-600 hover:text-red-800 rounded bg-red-100 hover:bg-red-200 transition-colors disabled:opacity-50"
+                        disabled={casino.bonuses.some(bonus => bonus.id === collectingId)} // Disable delete while collecting
+                      >
+                        Delete
+                      </button>
                     </div>
-                  </li>
-                );
-              })}
+                  </div>
+                  {balanceFormCasinoId === casino.id && (
+                    <BalanceForm
+                      balances={balanceOf(casino.id)}
+                      onSubmit={(entry) => handleRecordBalance(casino.id, entry)}
+                      onClose={() => setBalanceFormCasinoId(null)}
+                    />
+                  )}
+                  {casino.bonuses.length === 0 && (
+                    <p className="text-xs text-gray-500 italic mt-1 pl-3">No bonuses yet. Edit the casino to add one.</p>
+                  )}
+                  <ul className="mt-1 pl-3 border-l-2 border-gray-100 space-y-1">
+                    {casino.bonuses.map((bonus) => {
+                      const isCollectingThis = collectingId === bonus.id;
+                      return (
+                        <li key={bonus.id} className="py-1">
+                          <div className="flex justify-between items-center">
+                            <div>
+                              <span className="text-sm">{bonus.name}</span>
+                              <span className="text-xs text-gray-500 block">{bonus.schedule}</span>
+                            </div>
+                            <button
+                              onClick={() => handleCollect(bonus.id)}
+                              disabled={isCollectingThis || bonus.timeRemaining !== 'Now'}
+                              className={`px-3 py-1 text-xs font-medium rounded transition-colors ${bonus.timeRemaining === 'Now' && !isCollectingThis
+                                ? 'bg-green-500 text-white hover:bg-green-600' 
+                                : 'bg-gray-300 text-gray-600 cursor-not-allowed'
+                              } ${isCollectingThis ? 'opacity-50 animate-pulse' : ''}`}
+                            >
+                              {isCollectingThis ? 'Collecting...' : bonus.timeRemaining === 'Now' ? 'Collect' : bonus.timeRemaining}
+                            </button>
+                          </div>
+                          {collectForm?.bonusId === bonus.id && (
+                            <form
+                              onSubmit={(e) => { e.preventDefault(); handleConfirmCollect(); }}
+                              className="mt-2 p-3 bg-gray-50 rounded flex flex-wrap items-end gap-2"
+                            >
+                              <label className="text-xs text-gray-600">
+                                Amount
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="any"
+                                  value={collectForm.amount}
+                                  onChange={(e) => setCollectForm({ ...collectForm, amount: e.target.value })}
+                                  autoFocus
+                                  className="mt-1 block w-24 px-2 py-1 border border-gray-300 rounded text-sm"
+                                />
+                              </label>
+                              <label className="text-xs text-gray-600">
+                                Currency
+                                <select
+                                  value={collectForm.currency}
+                                  onChange={(e) => setCollectForm({ ...collectForm, currency: e.target.value as CurrencyType })}
+                                  className="mt-1 block px-2 py-1 border border-gray-300 rounded text-sm"
+                                >
+                                  {(Object.keys(CURRENCY_LABELS) as CurrencyType[]).map(currency => (
+                                    <option key={currency} value={currency}>{CURRENCY_LABELS[currency]}</option>
+                                  ))}
+                                </select>
+                              </label>
+                              {collectForm.currency === 'SC' && (
+                                <label className="text-xs text-gray-600">
+                                  Playthrough (x)
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    step="any"
+                                    value={collectForm.playthrough}
+                                    onChange={(e) => setCollectForm({ ...collectForm, playthrough: e.target.value })}
+                                    placeholder="None"
+                                    className="mt-1 block w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                                  />
+                                </label>
+                              )}
+                              <label className="text-xs text-gray-600">
+                                Collected at
+                                <input
+                                  type="datetime-local"
+                                  value={collectForm.collectedAt}
+                                  onChange={(e) => setCollectForm({ ...collectForm, collectedAt: e.target.value })}
+                                  className="mt-1 block px-2 py-1 border border-gray-300 rounded text-sm"
+                                />
+                                <span className="block text-gray-400">Leave blank for now</span>
+                              </label>
+                              <label className="text-xs text-gray-600 flex-1 min-w-[8rem]">
+                                Note (optional)
+                                <input
+                                  type="text"
+                                  value={collectForm.note}
+                                  onChange={(e) => setCollectForm({ ...collectForm, note: e.target.value })}
+                                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                                />
+                              </label>
+                              <div className="flex space-x-1.5">
+                                <button
+                                  type="button"
+                                  onClick={() => setCollectForm(null)}
+                                  disabled={isCollectingThis}
+                                  className="px-2 py-1 text-xs font-medium text-gray-600 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50"
+                                >
+                                  Cancel
+                                </button>
+                                <button
+                                  type="submit"
+                                  disabled={isCollectingThis}
+                                  className="px-3 py-1 text-xs font-medium text-white rounded bg-green-500 hover:bg-green-600 disabled:opacity-50"
+                                >
+                                  {isCollectingThis ? 'Saving...' : 'Save'}
+                                </button>
+                              </div>
+                              {collectFormError && <p className="w-full text-xs text-red-500">{collectFormError}</p>}
+                            </form>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </li>
+              ))}
             </ul>
+            </>
           ) : (
             <p className="text-gray-500 italic px-4">No casinos tracked yet. Add some!</p>
           )}
@@ -279,6 +816,15 @@ const Dashboard: React.FC = () => {
                       {formatDistanceToNowStrict(new Date(log.created_at), { addSuffix: true })}
                     </span>
                   </div>
+                  {log.related_collection_id && (
+                    <button
+                      onClick={() => handleUndo(log)}
+                      disabled={undoingId !== null}
+                      className="ml-2 px-2 py-1 text-xs font-medium text-gray-600 rounded bg-gray-100 hover:bg-gray-200 transition-colors disabled:opacity-50"
+                    >
+                      {undoingId === log.related_collection_id ? 'Undoing...' : 'Undo'}
+                    </button>
+                  )}
                 </li>
               ))}
             </ul>
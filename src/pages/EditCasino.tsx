@@ -1,14 +1,37 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { getTrackedCasinoById, updateTrackedCasino, TrackedCasino } from '../lib/supabaseClient';
+import {
+  getTrackedCasinoById,
+  normalizeSiteUrl,
+  updateTrackedCasino,
+  CasinoBonus,
+  addCasinoBonus,
+  updateCasinoBonus,
+  deleteCasinoBonus,
+} from '../lib/supabaseClient';
+import { describeSchedule } from '../lib/collectionSchedule';
+import CasinoBonusFields, {
+  BonusFormState,
+  bonusFormStateFromBonus,
+  bonusFormToBonusData,
+  defaultBonusFormState,
+  validateBonusForm,
+} from '../components/CasinoBonusFields';
 
 const EditCasino: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
 
   const [casinoName, setCasinoName] = useState('');
-  const [interval, setInterval] = useState(''); 
   const [bonusDescription, setBonusDescription] = useState(''); 
+  const [siteUrl, setSiteUrl] = useState('');
+  const [minRedemption, setMinRedemption] = useState('');
+  const [bonuses, setBonuses] = useState<CasinoBonus[]>([]);
+  // The bonus being edited: an existing bonus's ID, 'new', or null when none is open
+  const [editingBonusId, setEditingBonusId] = useState<string | null>(null);
+  const [bonusForm, setBonusForm] = useState<BonusFormState>(defaultBonusFormState);
+  const [bonusError, setBonusError] = useState<string | null>(null);
+  const [savingBonus, setSavingBonus] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true); 
   const [saving, setSaving] = useState(false); 
@@ -27,8 +50,10 @@ const EditCasino: React.FC = () => {
         const data = await getTrackedCasinoById(id);
         if (data) {
           setCasinoName(data.casino_name);
-          setInterval(data.collection_interval_hours.toString()); 
           setBonusDescription(data.bonus_description || '');
+          setSiteUrl(data.site_url || '');
+          setMinRedemption(data.min_redemption?.toString() ?? '');
+          setBonuses(data.bonuses);
         } else {
           setError('Casino not found or you do not have permission to edit it.');
         }
@@ -47,12 +72,6 @@ const EditCasino: React.FC = () => {
     event.preventDefault();
     setError(null); 
 
-    const intervalHours = parseFloat(interval);
-    if (isNaN(intervalHours) || intervalHours <= 0) {
-      setError('Please enter a valid positive number for collection interval in hours.');
-      return;
-    }
-
     if (!casinoName) {
       setError('Casino Name is required.');
       return;
@@ -62,16 +81,20 @@ const EditCasino: React.FC = () => {
       setError('Cannot save changes without a casino ID.');
       return;
     }
+    if (minRedemption !== '' && (isNaN(Number(minRedemption)) || Number(minRedemption) < 0)) {
+      setError('Minimum Redemption must be a number of 0 or more.');
+      return;
+    }
 
     setSaving(true); 
 
     try {
-      const updates: Partial<Omit<TrackedCasino, 'id' | 'user_id' | 'created_at' | 'last_collected_at'>> = {
+      await updateTrackedCasino(id, {
         casino_name: casinoName,
-        collection_interval_hours: intervalHours, 
         bonus_description: bonusDescription || null, 
-      };
-      await updateTrackedCasino(id, updates);
+        site_url: normalizeSiteUrl(siteUrl),
+        min_redemption: minRedemption === '' ? null : Number(minRedemption),
+      });
       navigate('/dashboard'); 
     } catch (err: any) {
       console.error('Error updating casino:', err);
@@ -81,6 +104,80 @@ const EditCasino: React.FC = () => {
     }
   };
 
+  const openBonusEditor = (bonus: CasinoBonus | null) => {
+    setBonusError(null);
+    setEditingBonusId(bonus ? bonus.id : 'new');
+    setBonusForm(bonus ? bonusFormStateFromBonus(bonus) : { ...defaultBonusFormState(), name: '' });
+  };
+
+  const handleSaveBonus = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setBonusError(null);
+
+    const validationError = validateBonusForm(bonusForm);
+    if (validationError) {
+      setBonusError(validationError);
+      return;
+    }
+    if (!id || !editingBonusId) return;
+
+    setSavingBonus(true);
+    try {
+      const bonusData = bonusFormToBonusData(bonusForm);
+      if (editingBonusId === 'new') {
+        const added = await addCasinoBonus(id, bonusData);
+        setBonuses(prev => [...prev, added]);
+      } else {
+        const updated = await updateCasinoBonus(editingBonusId, bonusData);
+        setBonuses(prev => prev.map(bonus => bonus.id === updated.id ? updated : bonus));
+      }
+      setEditingBonusId(null);
+    } catch (err: any) {
+      console.error('Error saving bonus:', err);
+      setBonusError(err.message || 'Failed to save bonus. Please try again.');
+    } finally {
+      setSavingBonus(false);
+    }
+  };
+
+  const handleDeleteBonus = async (bonus: CasinoBonus) => {
+    if (!window.confirm(`Delete the "${bonus.name}" bonus? Its past collections stay in your history.`)) return;
+
+    setBonusError(null);
+    try {
+      await deleteCasinoBonus(bonus.id);
+      setBonuses(prev => prev.filter(b => b.id !== bonus.id));
+      if (editingBonusId === bonus.id) setEditingBonusId(null);
+    } catch (err: any) {
+      console.error('Error deleting bonus:', err);
+      setBonusError(err.message || 'Failed to delete bonus.');
+    }
+  };
+
+  const renderBonusEditor = () => (
+    <form onSubmit={handleSaveBonus} className="space-y-4 border border-indigo-200 rounded-md p-4 bg-indigo-50">
+      <CasinoBonusFields bonus={bonusForm} onChange={setBonusForm} disabled={savingBonus} />
+      {bonusError && <p className="text-red-500 text-sm italic">{bonusError}</p>}
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={() => setEditingBonusId(null)}
+          disabled={savingBonus}
+          className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={savingBonus}
+          className="px-3 py-1.5 border border-transparent rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {savingBonus ? 'Saving...' : editingBonusId === 'new' ? 'Add Bonus' : 'Save Bonus'}
+        </button>
+      </div>
+    </form>
+  );
+
   if (loading) {
     return <div className="container mx-auto pt-4 max-w-lg text-center">Loading casino data...</div>;
   }
@@ -104,23 +201,38 @@ const EditCasino: React.FC = () => {
           />
         </div>
         <div>
-          <label htmlFor="interval" className="block text-sm font-medium text-gray-700 mb-1">
-            Collection Interval (hours) <span className="text-red-500">*</span>
+          <label htmlFor="siteUrl" className="block text-sm font-medium text-gray-700 mb-1">
+            Website (Optional)
+          </label>
+          <input
+            type="text"
+            id="siteUrl"
+            value={siteUrl}
+            onChange={(e) => setSiteUrl(e.target.value)}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            placeholder="e.g., https://www.luckydragon.com"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="minRedemption" className="block text-sm font-medium text-gray-700 mb-1">
+            Minimum Redemption in SC (Optional)
           </label>
           <input
             type="number"
-            id="interval" 
-            value={interval} 
-            onChange={(e) => setInterval(e.target.value)} 
-            required
-            min="1"
+            id="minRedemption"
+            min="0"
+            step="any"
+            value={minRedemption}
+            onChange={(e) => setMinRedemption(e.target.value)}
             className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-            placeholder="e.g., 24 (for daily)"
+            placeholder="e.g., 100"
           />
         </div>
+
         <div>
           <label htmlFor="bonusDescription" className="block text-sm font-medium text-gray-700 mb-1">
-            Bonus Description / Notes (Optional)
+            Casino Notes (Optional)
           </label>
           <textarea
             id="bonusDescription" 
@@ -128,7 +240,7 @@ const EditCasino: React.FC = () => {
             onChange={(e) => setBonusDescription(e.target.value)} 
             rows={3}
             className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-            placeholder="e.g., Daily $5 free play, must collect by midnight"
+            placeholder="e.g., Redemptions take 2-3 days, KYC done"
           />
         </div>
 
@@ -157,6 +269,62 @@ const EditCasino: React.FC = () => {
           </button>
         </div>
       </form>
+
+      <div className="mt-6 bg-white p-6 rounded-lg shadow">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-lg font-semibold">Bonuses</h3>
+          {editingBonusId === null && (
+            <button
+              type="button"
+              onClick={() => openBonusEditor(null)}
+              className="px-3 py-1.5 text-sm font-medium text-white rounded-md bg-indigo-600 hover:bg-indigo-700"
+            >
+              Add Bonus
+            </button>
+          )}
+        </div>
+        {bonuses.length === 0 && editingBonusId !== 'new' && (
+          <p className="text-sm text-gray-500 italic">This casino has no bonuses yet.</p>
+        )}
+        <ul className="space-y-2">
+          {bonuses.map(bonus => (
+            <li key={bonus.id}>
+              {editingBonusId === bonus.id ? renderBonusEditor() : (
+                <div className="flex justify-between items-center border border-gray-100 rounded-md px-3 py-2">
+                  <div>
+                    <span className="font-medium text-sm">{bonus.name}</span>
+                    <span className="block text-xs text-gray-500">
+                      {describeSchedule(bonus)}
+                      {bonus.bonus_value !== null && ` · $${Number(bonus.bonus_value).toFixed(2)}`}
+                      {!bonus.include_weekends && ' · Weekdays only'}
+                    </span>
+                  </div>
+                  <div className="flex space-x-1.5">
+                    <button
+                      type="button"
+                      onClick={() => openBonusEditor(bonus)}
+                      disabled={editingBonusId !== null}
+                      className="px-2 py-1 text-xs font-medium text-white rounded bg-blue-500 hover:bg-blue-600 disabled:opacity-50"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteBonus(bonus)}
+                      disabled={savingBonus}
+                      className="px-2 py-1 text-xs font-medium text-white rounded bg-red-500 hover:bg-red-600 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+        {editingBonusId === 'new' && <div className="mt-2">{renderBonusEditor()}</div>}
+        {bonusError && editingBonusId === null && <p className="mt-2 text-red-500 text-sm italic">{bonusError}</p>}
+      </div>
     </div>
   );
 };
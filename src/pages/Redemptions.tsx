@@ -0,0 +1,324 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { format, formatDistanceStrict, formatDistanceToNowStrict } from 'date-fns';
+import {
+  getRedemptions,
+  requestRedemption,
+  updateRedemptionStatus,
+  getTrackedCasinos,
+  getCasinoBalances,
+  getPreferredTimeZone,
+  Redemption,
+  TrackedCasino,
+  VirtualBalances,
+} from '../lib/supabaseClient';
+import {
+  RedemptionStatus,
+  REDEMPTION_STATUS_LABELS,
+  NEXT_REDEMPTION_STATUSES,
+  getAveragePayoutMs,
+  getMoneyInFlight,
+  isInFlight,
+  isSlowRedemption,
+} from '../lib/redemptions';
+import { getBrowserTimeZone, parseDateTimeInput } from '../lib/collectionSchedule';
+
+// Suggestions for the payout method; anything else can be typed
+const PAYOUT_METHODS = ['Bank transfer', 'Debit card', 'Skrill', 'Gift card', 'Crypto'];
+
+const STATUS_CLASSES: Record<RedemptionStatus, string> = {
+  requested: 'bg-gray-100 text-gray-700',
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+const emptyForm = { casinoId: '', amount: '', fee: '', payoutMethod: '', requestedAt: '', note: '' };
+
+const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
+
+// Redemption requests and their progress from request to payout
+const Redemptions: React.FC = () => {
+  const [redemptions, setRedemptions] = useState<Redemption[]>([]);
+  const [casinos, setCasinos] = useState<TrackedCasino[]>([]);
+  const [balances, setBalances] = useState<Map<string, VirtualBalances>>(new Map());
+  const [timeZone, setTimeZone] = useState<string>(getBrowserTimeZone());
+  const [form, setForm] = useState(emptyForm); // requestedAt is a datetime-local value; '' means now
+  const [formError, setFormError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [redemptionData, casinoData, balanceData] = await Promise.all([
+        getRedemptions(),
+        getTrackedCasinos(),
+        getCasinoBalances(),
+      ]);
+      setRedemptions(redemptionData);
+      setCasinos(casinoData);
+      setBalances(balanceData);
+    } catch (err: any) {
+      console.error('Error fetching redemptions:', err);
+      setError(err.message || 'Failed to load redemptions.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  useEffect(() => {
+    getPreferredTimeZone()
+      .then(setTimeZone)
+      .catch(err => console.error('Error fetching preferred time zone:', err));
+  }, []);
+
+  const selectedCasino = casinos.find(casino => casino.id === form.casinoId) ?? null;
+  const selectedBalance = selectedCasino ? balances.get(selectedCasino.id)?.SC ?? 0 : 0;
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const amount = Number(form.amount);
+    const fee = form.fee === '' ? 0 : Number(form.fee);
+    if (!selectedCasino) {
+      setFormError('Choose the casino you redeemed from.');
+      return;
+    }
+    if (form.amount === '' || isNaN(amount) || amount <= 0) {
+      setFormError('Enter the Sweeps Coins redeemed.');
+      return;
+    }
+    if (selectedCasino.min_redemption !== null && amount < selectedCasino.min_redemption) {
+      setFormError(`${selectedCasino.casino_name} only accepts redemptions of ${selectedCasino.min_redemption} SC or more.`);
+      return;
+    }
+    if (isNaN(fee) || fee < 0) {
+      setFormError('Fees must be a number of 0 or more.');
+      return;
+    }
+    const requestedAt = form.requestedAt ? parseDateTimeInput(form.requestedAt, timeZone) : undefined;
+    if (requestedAt === null || (requestedAt && requestedAt.getTime() > Date.now())) {
+      setFormError('The request time must be a valid time in the past.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await requestRedemption(selectedCasino.id, { amount, fee, payout_method: form.payoutMethod, note: form.note }, requestedAt);
+      setForm(emptyForm);
+      await fetchData();
+    } catch (err: any) {
+      console.error('Redemption Error:', err);
+      setFormError(err.message || 'Failed to record the redemption.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStatusChange = async (redemption: Redemption, status: RedemptionStatus) => {
+    if (status === 'rejected' && !window.confirm(`Mark this redemption as rejected? The ${redemption.amount} SC go back to the casino balance.`)) {
+      return;
+    }
+    setUpdatingId(redemption.id);
+    setError(null);
+    try {
+      await updateRedemptionStatus(redemption, status);
+      await fetchData();
+    } catch (err: any) {
+      console.error('Redemption Status Error:', err);
+      setError(err.message || 'Failed to update the redemption.');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const averagePayoutMs = getAveragePayoutMs(redemptions);
+  const inFlight = redemptions.filter(isInFlight);
+  const finished = redemptions.filter(redemption => !isInFlight(redemption));
+
+  const renderRedemption = (redemption: Redemption) => {
+    const average = averagePayoutMs.get(redemption.tracked_casino_id);
+    const slow = isSlowRedemption(redemption, averagePayoutMs);
+    const finishedAt = redemption.paid_at ?? redemption.rejected_at;
+    return (
+      <li key={redemption.id} className="border-b border-gray-100 py-2 last:border-b-0">
+        <div className="flex justify-between items-start">
+          <div>
+            <span className="font-medium">{redemption.casino_name}</span>
+            <span className={`ml-2 px-2 py-0.5 text-xs rounded ${STATUS_CLASSES[redemption.status]}`}>
+              {REDEMPTION_STATUS_LABELS[redemption.status]}
+            </span>
+            <span className="text-sm text-gray-700 block">
+              {redemption.amount} SC{redemption.fee > 0 && ` − ${formatCurrency(redemption.fee)} fees`}
+              {redemption.payout_method && ` · ${redemption.payout_method}`}
+            </span>
+            <span className="text-xs text-gray-500 block">
+              Requested {format(redemption.requested_at, 'MMM d, yyyy')}
+              {finishedAt
+                ? ` · ${REDEMPTION_STATUS_LABELS[redemption.status].toLowerCase()} ${format(finishedAt, 'MMM d, yyyy')}`
+                : ` · waiting ${formatDistanceToNowStrict(redemption.requested_at)}`}
+            </span>
+            {slow && average !== undefined && (
+              <span className="text-xs text-yellow-700 font-semibold block">
+                Slower than usual: {redemption.casino_name} usually pays in {formatDistanceStrict(0, average)}
+              </span>
+            )}
+            {redemption.note && <span className="text-xs text-gray-400 block italic">{redemption.note}</span>}
+          </div>
+          <div className="flex space-x-1.5 ml-2">
+            {NEXT_REDEMPTION_STATUSES[redemption.status].map(status => (
+              <button
+                key={status}
+                onClick={() => handleStatusChange(redemption, status)}
+                disabled={updatingId !== null}
+                className={`px-2 py-1 text-xs font-medium rounded transition-colors disabled:opacity-50 ${status === 'rejected'
+                  ? 'text-red-600 hover:text-red-800 bg-red-100 hover:bg-red-200'
+                  : 'text-indigo-600 hover:text-indigo-800 bg-indigo-100 hover:bg-indigo-200'
+                }`}
+              >
+                {updatingId === redemption.id ? '...' : REDEMPTION_STATUS_LABELS[status]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </li>
+    );
+  };
+
+  const inputClassName = 'mt-1 block w-full px-2 py-1 border border-gray-300 rounded text-sm';
+
+  return (
+    <div className="container mx-auto pt-4 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-semibold">Redemptions</h2>
+        <Link to="/dashboard" className="text-sm text-indigo-600 hover:text-indigo-800">Back to Dashboard</Link>
+      </div>
+
+      <form onSubmit={handleRequest} className="bg-white rounded-lg shadow p-4 grid grid-cols-2 md:grid-cols-3 gap-3">
+        <h3 className="col-span-full text-lg font-semibold">Record a Redemption Request</h3>
+        <label className="text-xs text-gray-600">
+          Casino
+          <select
+            value={form.casinoId}
+            onChange={(e) => setForm({ ...form, casinoId: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">Choose...</option>
+            {casinos.map(casino => (
+              <option key={casino.id} value={casino.id}>{casino.casino_name}</option>
+            ))}
+          </select>
+          {selectedCasino && (
+            <span className="block text-gray-400 mt-1">
+              Balance {selectedBalance} SC
+              {selectedCasino.min_redemption !== null && ` · minimum ${selectedCasino.min_redemption} SC`}
+            </span>
+          )}
+        </label>
+        <label className="text-xs text-gray-600">
+          Sweeps Coins
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={form.amount}
+            onChange={(e) => setForm({ ...form, amount: e.target.value })}
+            className={inputClassName}
+          />
+          {selectedCasino && Number(form.amount) > selectedBalance && (
+            <span className="block text-yellow-700 mt-1">More than the recorded balance</span>
+          )}
+        </label>
+        <label className="text-xs text-gray-600">
+          Fees ($)
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={form.fee}
+            onChange={(e) => setForm({ ...form, fee: e.target.value })}
+            placeholder="0"
+            className={inputClassName}
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          Payout method
+          <input
+            type="text"
+            list="payoutMethods"
+            value={form.payoutMethod}
+            onChange={(e) => setForm({ ...form, payoutMethod: e.target.value })}
+            className={inputClassName}
+          />
+          <datalist id="payoutMethods">
+            {PAYOUT_METHODS.map(method => <option key={method} value={method} />)}
+          </datalist>
+        </label>
+        <label className="text-xs text-gray-600">
+          Requested at
+          <input
+            type="datetime-local"
+            value={form.requestedAt}
+            onChange={(e) => setForm({ ...form, requestedAt: e.target.value })}
+            className={inputClassName}
+          />
+          <span className="block text-gray-400">Leave blank for now</span>
+        </label>
+        <label className="text-xs text-gray-600">
+          Note (optional)
+          <input
+            type="text"
+            value={form.note}
+            onChange={(e) => setForm({ ...form, note: e.target.value })}
+            className={inputClassName}
+          />
+        </label>
+        {formError && <p className="col-span-full text-xs text-red-500">{formError}</p>}
+        <div className="col-span-full flex justify-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white rounded-md bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Record Request'}
+          </button>
+        </div>
+      </form>
+
+      {error && <p className="text-red-500 italic">Error: {error}</p>}
+      {loading ? (
+        <p className="text-gray-500 italic">Loading redemptions...</p>
+      ) : (
+        <>
+          <div className="bg-white rounded-lg shadow p-4">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="text-lg font-semibold">In Flight</h3>
+              <span className="text-sm text-gray-600">{formatCurrency(getMoneyInFlight(redemptions))} on its way</span>
+            </div>
+            {inFlight.length === 0
+              ? <p className="text-gray-500 italic text-sm">No redemptions waiting.</p>
+              : <ul>{inFlight.map(renderRedemption)}</ul>}
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <h3 className="text-lg font-semibold mb-3">Paid and Rejected</h3>
+            {finished.length === 0
+              ? <p className="text-gray-500 italic text-sm">No finished redemptions yet.</p>
+              : <ul>{finished.map(renderRedemption)}</ul>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Redemptions;
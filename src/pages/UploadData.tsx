@@ -1,24 +1,261 @@
-import React, { useState, useCallback } from 'react';
-import { supabase } from '../lib/supabaseClient'; // Assuming edge function will be called via supabase client
+import React, { useState, useEffect, useCallback } from 'react';
+import { format, formatDistanceToNowStrict } from 'date-fns';
+import { FunctionsError } from '@supabase/supabase-js';
+import {
+  supabase, // Assuming edge function will be called via supabase client
+  getSavedColumnMapping,
+  saveColumnMapping,
+  ColumnMapping,
+  WorkbookColumnMapping,
+  UserWager,
+  UserTransaction,
+  getImportBatches,
+  rollbackImportBatch,
+  ImportBatch
+} from '../lib/supabaseClient';
 import { useAuthContext } from '../contexts/AuthContext';
 
+// Field description returned by parse-spreadsheet in 'headers' mode
+interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+type RecordType = keyof WorkbookColumnMapping;
+
+// One sheet of the uploaded workbook (a CSV has exactly one)
+interface WorkbookSheet {
+  name: string;
+  headers: string[];
+  suggestedMapping: WorkbookColumnMapping;
+  suggestedRecordTypeColumn: string | null;
+}
+
+interface WorkbookColumns {
+  sheets: WorkbookSheet[];
+  fields: Record<RecordType, ImportField[]>;
+}
+
+// Sheet name per record type; '' means the file does not contain that record type
+type SheetChoice = Record<RecordType, string>;
+
+type ImportMode = 'merge' | 'replace';
+
+// How ambiguous text dates like "03/04/2025" are read: US month first, or day first
+type DateOrder = 'mdy' | 'dmy';
+
+interface MergeSummary {
+  inserted: number;
+  unchanged: number;
+  conflicting: number;
+}
+
+// A problem with one row of the upload: either the row was skipped or one cell was imported as blank
+interface ImportIssue {
+  sheet: string;
+  row: number;
+  column: string | null;
+  value: unknown;
+  problem: string;
+  rowSkipped: boolean;
+}
+
+// Issues of the last import, kept after the preview is cleared so the report can still be downloaded
+interface IssueReport {
+  fileName: string;
+  issues: ImportIssue[];
+}
+
+// Dry-run result returned by parse-spreadsheet in 'preview' mode
+interface ImportPreview {
+  importMode: ImportMode;
+  wagersSheet: string | null;
+  transactionsSheet: string | null;
+  wagers: UserWager[];
+  transactions: UserTransaction[];
+  issues: ImportIssue[];
+  mergeSummary: { wagers: MergeSummary; transactions: MergeSummary } | null;
+  conflicts: { sheet: string; date: string | null; casino_name: string | null; detail: string | null }[];
+}
+
+// Only the first rows are rendered; the counts above the tables cover everything
+const PREVIEW_ROW_LIMIT = 50;
+
+const recordTypeLabels: Record<RecordType, string> = {
+  wagers: 'Wagers',
+  transactions: 'Transactions',
+};
+
+const ACCEPTED_EXTENSIONS = ['.xlsx', '.ods', '.csv'];
+
+// Hands a generated file to the browser as a download
+const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const formatIssueValue = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+// Quotes a CSV cell when it contains a delimiter, quote or line break
+const csvCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Saves the issues as a CSV file next to the uploaded workbook's name
+const downloadIssueReport = ({ fileName, issues }: IssueReport) => {
+  const lines = [
+    ['Sheet', 'Row', 'Column', 'Value', 'Problem'],
+    ...issues.map(issue => [issue.sheet, String(issue.row), issue.column ?? '', formatIssueValue(issue.value), issue.problem]),
+  ].map(cells => cells.map(csvCell).join(','));
+
+  const blob = new Blob([lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+  saveBlob(blob, `${fileName.replace(/\.[^.]+$/, '')}-import-issues.csv`);
+};
+
+// Prefers the user's saved choice for a field when that header still exists in the sheet
+const mergeSavedMapping = (
+  fields: ImportField[],
+  sheet: WorkbookSheet | undefined,
+  recordType: RecordType,
+  saved: ColumnMapping | undefined
+): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  for (const field of fields) {
+    const savedHeader = saved?.[field.key];
+    if (!sheet) {
+      mapping[field.key] = null;
+    } else if (savedHeader === null || (savedHeader !== undefined && sheet.headers.includes(savedHeader))) {
+      mapping[field.key] = savedHeader;
+    } else {
+      mapping[field.key] = sheet.suggestedMapping[recordType][field.key] ?? null;
+    }
+  }
+  return mapping;
+};
+
+// Picks the sheet for a record type: one named after it, otherwise a single-sheet file
+// (e.g. a CSV) is assigned by its file name, defaulting to wagers
+const guessSheet = (sheets: WorkbookSheet[], recordType: RecordType, fileName: string): string => {
+  const byName = sheets.find(sheet => sheet.name.trim().toLowerCase() === recordTypeLabels[recordType].toLowerCase());
+  if (byName) return byName.name;
+  if (sheets.length !== 1) return '';
+
+  const onlySheet = sheets[0];
+  if (onlySheet.suggestedRecordTypeColumn) return onlySheet.name; // Both record types, split by a type column
+  const looksLikeTransactions = /transaction/i.test(fileName);
+  return (recordType === 'transactions') === looksLikeTransactions ? onlySheet.name : '';
+};
+
+// Extracts the most specific message from a failed edge function call
+const functionErrorMessage = async (functionError: FunctionsError, fallback: string): Promise<string> => {
+  if (functionError.context instanceof Response) {
+    // HTTP errors carry the function's JSON body (e.g. a rolled-back import) in the raw response
+    try {
+      const body = await functionError.context.json();
+      return body?.message || body?.error || functionError.message || fallback;
+    } catch (_parseError) {
+      return functionError.message || fallback;
+    }
+  } else if (functionError.context && typeof functionError.context === 'object' && 'message' in functionError.context) {
+    return functionError.context.message as string;
+  }
+  return functionError.message || fallback;
+};
+
+// Invokes the parse-spreadsheet edge function and surfaces its error message
+const invokeParseSpreadsheet = async (formData: FormData) => {
+  // Note: When using FormData, Supabase client automatically sets the correct
+  // Content-Type header (multipart/form-data) with the boundary.
+  // Do NOT manually set Content-Type here.
+  const { data, error: functionError } = await supabase.functions.invoke(
+    'parse-spreadsheet', // Name of the function
+    { body: formData }
+  );
+
+  if (functionError) {
+    console.error('Function invocation error:', functionError);
+    throw new Error(await functionErrorMessage(functionError, 'Failed to process spreadsheet.'));
+  }
+
+  return data;
+};
+
+// Downloads the user's data (or a blank template) in the 'Ye ol' Free Casinos' workbook layout
+const exportWorkbook = async (template: boolean) => {
+  const { data, error: functionError } = await supabase.functions.invoke('export-spreadsheet', { body: { template } });
+
+  if (functionError) {
+    console.error('Function invocation error:', functionError);
+    throw new Error(await functionErrorMessage(functionError, 'Failed to export spreadsheet.'));
+  }
+
+  const blob = new Blob([data as Blob], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  const fileName = template
+    ? "Ye ol' Free Casinos - Template.xlsx"
+    : `Ye ol' Free Casinos - ${format(new Date(), 'yyyy-MM-dd')}.xlsx`;
+  saveBlob(blob, fileName);
+};
+
 const UploadData: React.FC = () => {
   const { user } = useAuthContext();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [message, setMessage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [columns, setColumns] = useState<WorkbookColumns | null>(null); // Set once the mapping step is shown
+  const [mapping, setMapping] = useState<WorkbookColumnMapping | null>(null);
+  const [savedMapping, setSavedMapping] = useState<WorkbookColumnMapping | null>(null);
+  const [sheetChoice, setSheetChoice] = useState<SheetChoice>({ wagers: '', transactions: '' });
+  const [recordTypeColumn, setRecordTypeColumn] = useState('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null); // Set once the dry run has been reviewed
+  const [issueReport, setIssueReport] = useState<IssueReport | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [dateOrder, setDateOrder] = useState<DateOrder>('mdy');
+  const [importBatches, setImportBatches] = useState<ImportBatch[]>([]);
+  const [loadingBatches, setLoadingBatches] = useState(true);
+  const [batchesError, setBatchesError] = useState<string | null>(null);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<'template' | 'data' | null>(null);
+
+  const fetchImportBatches = useCallback(async () => {
+    setLoadingBatches(true);
+    setBatchesError(null);
+    try {
+      const batches = await getImportBatches();
+      setImportBatches(batches);
+    } catch (err: any) {
+      console.error('Error fetching import history:', err);
+      setBatchesError(err.message || 'Failed to load import history.');
+    } finally {
+      setLoadingBatches(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchImportBatches();
+  }, [fetchImportBatches]);
+
+  const resetMappingStep = () => {
+    setColumns(null);
+    setMapping(null);
+    setPreview(null);
+  };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setError(null);
     setMessage(null);
+    setIssueReport(null);
+    resetMappingStep();
     if (event.target.files && event.target.files.length > 0) {
       const file = event.target.files[0];
       // Basic validation for file type (though 'accept' attribute helps)
-      if (file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' || file.name.endsWith('.xlsx')) {
+      if (ACCEPTED_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension))) {
           setSelectedFile(file);
       } else {
-          setError('Invalid file type. Please upload an .xlsx file.');
+          setError('Invalid file type. Please upload an .xlsx, .ods or .csv file.');
           setSelectedFile(null);
           // Clear the input value if the file is invalid
           event.target.value = '';
@@ -28,7 +265,8 @@ const UploadData: React.FC = () => {
     }
   };
 
-  const handleUpload = async () => {
+  // Step 1: read the sheet headers and pre-fill the mapping (saved mapping first, then suggestions)
+  const handleCheckColumns = async () => {
     if (!selectedFile) {
       setError('Please select a file first.');
       return;
@@ -43,75 +281,469 @@ const UploadData: React.FC = () => {
     setMessage(null);
 
     try {
-      // Create FormData
       const formData = new FormData();
       formData.append('spreadsheet', selectedFile); // Use 'spreadsheet' as the key
+      formData.append('mode', 'headers');
 
-      // Invoke the Supabase Edge Function with FormData
-      // Note: When using FormData, Supabase client automatically sets the correct
-      // Content-Type header (multipart/form-data) with the boundary.
-      // Do NOT manually set Content-Type here.
-      const { data, error: functionError } = await supabase.functions.invoke(
-        'parse-spreadsheet', // Name of the function
-        { body: formData }
-      );
-
-      if (functionError) {
-        console.error('Function invocation error:', functionError);
-        // Try to parse a more specific error message if available
-        let specificError = 'Failed to process spreadsheet.';
-        if (functionError.context && typeof functionError.context === 'object' && 'message' in functionError.context) {
-             specificError = functionError.context.message as string;
-        } else if (functionError.message) {
-            specificError = functionError.message;
-        }
-        setError(`Error: ${specificError}`);
-        throw new Error(specificError); // Rethrow for the catch block
-      }
+      const [workbookColumns, saved] = await Promise.all([
+        invokeParseSpreadsheet(formData) as Promise<WorkbookColumns>,
+        getSavedColumnMapping().catch(mappingError => {
+          // A missing saved mapping should not block the upload
+          console.error('Failed to load saved column mapping:', mappingError);
+          return null;
+        }),
+      ]);
+
+      const choice: SheetChoice = {
+        wagers: guessSheet(workbookColumns.sheets, 'wagers', selectedFile.name),
+        transactions: guessSheet(workbookColumns.sheets, 'transactions', selectedFile.name),
+      };
+      const findSheet = (name: string) => workbookColumns.sheets.find(sheet => sheet.name === name);
+
+      setColumns(workbookColumns);
+      setSavedMapping(saved);
+      setSheetChoice(choice);
+      setRecordTypeColumn(findSheet(choice.wagers)?.suggestedRecordTypeColumn ?? '');
+      setMapping({
+        wagers: mergeSavedMapping(workbookColumns.fields.wagers, findSheet(choice.wagers), 'wagers', saved?.wagers),
+        transactions: mergeSavedMapping(workbookColumns.fields.transactions, findSheet(choice.transactions), 'transactions', saved?.transactions),
+      });
+    } catch (err: any) {
+      console.error('Column check error:', err);
+      setError(`Error: ${err.message || 'An unexpected error occurred while reading the spreadsheet.'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const findSheet = (name: string) => columns?.sheets.find(sheet => sheet.name === name);
+
+  const handleSheetChange = (recordType: RecordType, sheetName: string) => {
+    if (!columns) return;
+    setPreview(null);
+    setSheetChoice(prev => ({ ...prev, [recordType]: sheetName }));
+    setMapping(prev => prev && {
+      ...prev,
+      [recordType]: mergeSavedMapping(columns.fields[recordType], findSheet(sheetName), recordType, savedMapping?.[recordType]),
+    });
+    if (sheetName && !recordTypeColumn) {
+      setRecordTypeColumn(findSheet(sheetName)?.suggestedRecordTypeColumn ?? '');
+    }
+  };
+
+  const handleMappingChange = (recordType: RecordType, fieldKey: string, header: string) => {
+    setPreview(null); // A different mapping needs a fresh preview
+    setMapping(prev => prev && {
+      ...prev,
+      [recordType]: { ...prev[recordType], [fieldKey]: header === '' ? null : header },
+    });
+  };
+
+  const sharesOneSheet = sheetChoice.wagers !== '' && sheetChoice.wagers === sheetChoice.transactions;
+
+  const missingRequiredFields = (recordType: RecordType): string[] => {
+    if (!columns || !mapping || !sheetChoice[recordType]) return [];
+    return columns.fields[recordType]
+      .filter(field => field.required && !mapping[recordType][field.key])
+      .map(field => `${recordTypeLabels[recordType]}: ${field.label}`);
+  };
+
+  // Problems that must be fixed before the file can be previewed
+  const selectionErrors = (): string | null => {
+    if (!sheetChoice.wagers && !sheetChoice.transactions) {
+      return 'Please choose the sheet that holds wagers, transactions, or both.';
+    }
+    if (sharesOneSheet && !recordTypeColumn) {
+      return 'Please choose the column that says whether each row is a wager or a transaction.';
+    }
+    const missing = [...missingRequiredFields('wagers'), ...missingRequiredFields('transactions')];
+    if (missing.length > 0) {
+      return `Please choose a column for: ${missing.join(', ')}.`;
+    }
+    return null;
+  };
+
+  const buildFormData = (mode: 'preview' | 'import') => {
+    const formData = new FormData();
+    formData.append('spreadsheet', selectedFile as File); // Use 'spreadsheet' as the key
+    formData.append('mode', mode);
+    formData.append('columnMapping', JSON.stringify(mapping));
+    formData.append('importMode', importMode);
+    formData.append('dateOrder', dateOrder);
+    formData.append('wagersSheet', sheetChoice.wagers);
+    formData.append('transactionsSheet', sheetChoice.transactions);
+    if (sharesOneSheet) {
+      formData.append('recordTypeColumn', recordTypeColumn);
+    }
+    return formData;
+  };
+
+  // Step 2: dry-run the import with the confirmed mapping so the user can review it
+  const handlePreview = async () => {
+    if (!selectedFile || !mapping) {
+      setError('Please select a file first.');
+      return;
+    }
+
+    const selectionError = selectionErrors();
+    if (selectionError) {
+      setError(selectionError);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const data = await invokeParseSpreadsheet(buildFormData('preview'));
+      setPreview(data as ImportPreview);
+    } catch (err: any) {
+      console.error('Preview error:', err);
+      setError(`Error: ${err.message || 'An unexpected error occurred while previewing the import.'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Step 3: save the confirmed mapping and import the previewed data
+  const handleUpload = async () => {
+    if (!selectedFile || !mapping || !preview) {
+      setError('Please preview the import first.');
+      return;
+    }
+    if (!user) {
+        setError('You must be logged in to upload data.');
+        return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      // Remember the mapping for next time; failing to save it should not block the import.
+      // A record type that isn't in this file has nothing but blanks, so its saved mapping stays.
+      const mappingToSave: WorkbookColumnMapping = {
+        wagers: sheetChoice.wagers ? mapping.wagers : savedMapping?.wagers ?? {},
+        transactions: sheetChoice.transactions ? mapping.transactions : savedMapping?.transactions ?? {},
+      };
+      saveColumnMapping(mappingToSave).catch(mappingError => {
+        console.error('Failed to save column mapping:', mappingError);
+      });
+
+      const data = await invokeParseSpreadsheet(buildFormData('import'));
 
       console.log('Function response data:', data);
       // Assuming the function returns a success message or status
       setMessage(data?.message || 'Spreadsheet processed successfully!');
+      const issues: ImportIssue[] = data?.issues ?? [];
+      setIssueReport(issues.length > 0 ? { fileName: selectedFile.name, issues } : null);
       setSelectedFile(null); // Clear selection on success
+      resetMappingStep();
       // Optionally clear the file input visually if needed (can be tricky)
       const fileInput = document.getElementById('file-upload') as HTMLInputElement;
       if (fileInput) {
         fileInput.value = '';
       }
+      fetchImportBatches();
 
-    } catch (err) {
-      // Error is already set in the try block if it's a functionError
-      if (!error) { // Handle other potential errors (e.g., network issues)
-        console.error('Upload error:', err);
-        setError('An unexpected error occurred during upload.');
-      }
+    } catch (err: any) {
+      console.error('Upload error:', err);
+      setError(`Error: ${err.message || 'An unexpected error occurred during upload.'}`);
     } finally {
       setLoading(false);
     }
   };
 
-  // Memoize handleUpload to prevent unnecessary re-renders if passed down
-  const memoizedHandleUpload = useCallback(handleUpload, [selectedFile, user, error]); // Added error dependency
+  const handleExport = async (template: boolean) => {
+    setExporting(template ? 'template' : 'data');
+    setError(null);
+    try {
+      await exportWorkbook(template);
+    } catch (err: any) {
+      console.error('Export error:', err);
+      setError(`Error: ${err.message || 'Failed to export spreadsheet.'}`);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleRollback = async (batch: ImportBatch) => {
+    const replaceWarning = batch.import_mode === 'replace'
+      ? ' Data that this import replaced will not be restored.'
+      : '';
+    if (!window.confirm(`Undo the import of ${batch.file_name}? This deletes the ${batch.wagers_inserted} wagers and ${batch.transactions_inserted} transactions it added.${replaceWarning}`)) {
+      return;
+    }
+
+    setRollingBackId(batch.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await rollbackImportBatch(batch.id);
+      setMessage(`Import undone. Removed ${result.wagers_deleted} wagers and ${result.transactions_deleted} transactions.`);
+      await fetchImportBatches();
+    } catch (err: any) {
+      console.error('Rollback error:', err);
+      setError(`Error: ${err.message || 'Failed to undo import.'}`);
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  const renderSheetSelect = (recordType: RecordType) => (
+    <label className="block text-sm text-gray-700">
+      <span className="block font-medium mb-1">{recordTypeLabels[recordType]} sheet</span>
+      <select
+        value={sheetChoice[recordType]}
+        onChange={(e) => handleSheetChange(recordType, e.target.value)}
+        disabled={loading}
+        className="w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+      >
+        <option value="">-- Not in this file --</option>
+        {columns?.sheets.map(sheet => (
+          <option key={sheet.name} value={sheet.name}>{sheet.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const renderMappingTable = (recordType: RecordType) => {
+    const sheet = findSheet(sheetChoice[recordType]);
+    if (!columns || !mapping || !sheet) return null;
+
+    return (
+      <div className="mb-6">
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">{recordTypeLabels[recordType]} ({sheet.name})</h3>
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-100">
+              <th className="py-1 font-medium">Field</th>
+              <th className="py-1 font-medium">Spreadsheet column</th>
+            </tr>
+          </thead>
+          <tbody>
+            {columns.fields[recordType].map(field => (
+              <tr key={field.key} className="border-b border-gray-100 last:border-b-0">
+                <td className="py-1 pr-4">
+                  {field.label} {field.required && <span className="text-red-500">*</span>}
+                </td>
+                <td className="py-1">
+                  <select
+                    value={mapping[recordType][field.key] ?? ''}
+                    onChange={(e) => handleMappingChange(recordType, field.key, e.target.value)}
+                    disabled={loading}
+                    className="w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    <option value="">-- Not mapped --</option>
+                    {sheet.headers.map(header => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  const formatPreviewValue = (value: unknown) =>
+    value === null || value === undefined ? <span className="text-gray-400">—</span> : String(value);
+
+  const renderPreviewTable = <T extends object>(title: string, rows: T[], columnsToShow: { key: keyof T; label: string }[]) => (
+    <div className="mb-6">
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">
+        {title} ({rows.length}{rows.length > PREVIEW_ROW_LIMIT ? `, showing first ${PREVIEW_ROW_LIMIT}` : ''})
+      </h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">No rows to import.</p>
+      ) : (
+        <div className="max-h-64 overflow-auto border border-gray-100 rounded">
+          <table className="min-w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-100">
+                {columnsToShow.map(column => (
+                  <th key={String(column.key)} className="px-2 py-1 font-medium whitespace-nowrap">{column.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.slice(0, PREVIEW_ROW_LIMIT).map((row, index) => (
+                <tr key={index} className="border-b border-gray-100 last:border-b-0">
+                  {columnsToShow.map(column => (
+                    <td key={String(column.key)} className="px-2 py-1 whitespace-nowrap">{formatPreviewValue(row[column.key])}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderIssues = (report: IssueReport) => (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-700">Row Issues ({report.issues.length})</h3>
+        <button
+          type="button"
+          onClick={() => downloadIssueReport(report)}
+          className="text-xs font-medium text-indigo-600 hover:text-indigo-800"
+        >
+          Download Report (CSV)
+        </button>
+      </div>
+      <div className="max-h-48 overflow-auto border border-gray-100 rounded">
+        <table className="min-w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-100">
+              <th className="px-2 py-1 font-medium">Sheet</th>
+              <th className="px-2 py-1 font-medium">Row</th>
+              <th className="px-2 py-1 font-medium">Column</th>
+              <th className="px-2 py-1 font-medium">Value</th>
+              <th className="px-2 py-1 font-medium">Problem</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.issues.map((issue, index) => (
+              <tr key={index} className={`border-b border-gray-100 last:border-b-0 ${issue.rowSkipped ? 'text-red-700' : 'text-gray-700'}`}>
+                <td className="px-2 py-1 whitespace-nowrap">{issue.sheet}</td>
+                <td className="px-2 py-1">{issue.row}</td>
+                <td className="px-2 py-1 whitespace-nowrap">{issue.column ?? '—'}</td>
+                <td className="px-2 py-1">{formatIssueValue(issue.value) || <span className="text-gray-400">(blank)</span>}</td>
+                <td className="px-2 py-1">{issue.problem}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+
+  const renderPreview = () => {
+    if (!preview) return null;
+    const skippedRowCount = preview.issues.filter(issue => issue.rowSkipped).length;
+
+    return (
+      <div className="mb-2">
+        <h2 className="text-lg font-semibold mb-1 text-gray-800">Preview Import</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {preview.wagers.length} wagers and {preview.transactions.length} transactions are ready to import.
+          {' '}{skippedRowCount} rows will be skipped and {preview.issues.length - skippedRowCount} cells will be imported as blank.
+          {preview.importMode === 'replace' && (
+            <>
+              {' '}<span className="font-semibold">
+                Importing replaces all of your existing {[preview.wagersSheet && 'wagers', preview.transactionsSheet && 'transactions'].filter(Boolean).join(' and ')}.
+              </span>
+            </>
+          )}
+        </p>
+
+        {preview.mergeSummary && (
+          <div className="mb-4 text-sm text-gray-700">
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Merge Summary</h3>
+            <p>
+              Wagers: {preview.mergeSummary.wagers.inserted} new, {preview.mergeSummary.wagers.unchanged} unchanged,
+              {' '}{preview.mergeSummary.wagers.conflicting} conflicting
+            </p>
+            <p>
+              Transactions: {preview.mergeSummary.transactions.inserted} new, {preview.mergeSummary.transactions.unchanged} unchanged,
+              {' '}{preview.mergeSummary.transactions.conflicting} conflicting
+            </p>
+            {preview.conflicts.length > 0 && (
+              <>
+                <p className="text-xs text-gray-500 mt-2">
+                  Conflicting rows match a stored row by date, casino and game/type but have different values.
+                  The stored row is kept and the uploaded row is not imported.
+                </p>
+                <ul className="text-xs text-gray-700 max-h-40 overflow-y-auto space-y-1 mt-1">
+                  {preview.conflicts.map((conflict, index) => (
+                    <li key={index}>
+                      {conflict.sheet}: {conflict.date ?? 'no date'}, {conflict.casino_name}{conflict.detail ? `, ${conflict.detail}` : ''}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
+
+        {preview.issues.length > 0 && renderIssues({ fileName: selectedFile?.name ?? 'spreadsheet', issues: preview.issues })}
+
+        {renderPreviewTable<UserWager>('Wagers', preview.wagers, [
+          { key: 'wager_date', label: 'Date' },
+          { key: 'casino_name', label: 'Casino' },
+          { key: 'game_played', label: 'Game' },
+          { key: 'bet_size', label: 'Bet' },
+          { key: 'num_plays', label: 'Plays' },
+          { key: 'ending_balance', label: 'End Bal.' },
+          { key: 'total_wagered', label: 'Wagered' },
+          { key: 'total_won', label: 'Won' },
+          { key: 'net_result', label: 'Net' },
+          { key: 'rtp', label: 'RTP' },
+        ])}
+        {renderPreviewTable<UserTransaction>('Transactions', preview.transactions, [
+          { key: 'transaction_date', label: 'Date' },
+          { key: 'casino_name', label: 'Casino' },
+          { key: 'type', label: 'Type' },
+          { key: 'amount_spent', label: 'Spent' },
+          { key: 'redemption_request', label: 'Redemption' },
+          { key: 'after_playthrough_value', label: 'After PT' },
+          { key: 'cc_points', label: 'CC Pts' },
+          { key: 'tax_implications', label: 'Tax' },
+        ])}
+      </div>
+    );
+  };
+
+  const spinner = (
+    <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+    </svg>
+  );
 
   return (
     <div className="container mx-auto px-4 py-12 max-w-2xl">
       <h1 className="text-3xl font-bold mb-6 text-center text-gray-800">Upload Casino Data</h1>
-      <p className="mb-6 text-center text-gray-600">
+      <p className="mb-2 text-center text-gray-600">
         Upload your completed{' '}
-        {/* TODO: Add link to template if available */}
         <span className="font-semibold">'Ye ol' Free Casinos - 2025.xlsx'</span>{' '}
         spreadsheet to analyze your wagering and transaction history.
       </p>
+      <p className="mb-6 text-center text-sm">
+        <button
+          type="button"
+          onClick={() => handleExport(true)}
+          disabled={exporting !== null}
+          className="font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+        >
+          {exporting === 'template' ? 'Preparing…' : 'Download blank template'}
+        </button>
+        <span className="mx-2 text-gray-400">|</span>
+        <button
+          type="button"
+          onClick={() => handleExport(false)}
+          disabled={exporting !== null}
+          className="font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+        >
+          {exporting === 'data' ? 'Preparing…' : 'Export my data (.xlsx)'}
+        </button>
+      </p>
 
       <div className="bg-white p-8 rounded-lg shadow-md border border-gray-200">
         <div className="mb-6">
           <label htmlFor="file-upload" className="block text-sm font-medium text-gray-700 mb-2">
-            Select Spreadsheet (.xlsx format only)
+            Select Spreadsheet (.xlsx, .ods or .csv)
           </label>
           <input
             id="file-upload"
             type="file"
-            accept=".xlsx, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            accept=".xlsx, .ods, .csv, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/vnd.oasis.opendocument.spreadsheet, text/csv"
             onChange={handleFileChange}
             className="block w-full text-sm text-gray-500
                        file:mr-4 file:py-2 file:px-4
@@ -123,6 +755,89 @@ const UploadData: React.FC = () => {
           />
         </div>
 
+        {columns && mapping && (
+          <div className="mb-2">
+            <h2 className="text-lg font-semibold mb-1 text-gray-800">Confirm Column Mapping</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Choose which sheet holds each record type, then check which spreadsheet column fills each field.
+              Your column choices are saved for future uploads.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+              {renderSheetSelect('wagers')}
+              {renderSheetSelect('transactions')}
+            </div>
+            {sharesOneSheet && (
+              <label className="block text-sm text-gray-700 mb-6">
+                <span className="block font-medium mb-1">
+                  Record type column <span className="text-red-500">*</span>
+                </span>
+                <span className="block text-xs text-gray-500 mb-1">
+                  Both record types are in one sheet. Pick the column whose values are "Wager" or "Transaction".
+                </span>
+                <select
+                  value={recordTypeColumn}
+                  onChange={(e) => { setRecordTypeColumn(e.target.value); setPreview(null); }}
+                  disabled={loading}
+                  className="w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                  <option value="">-- Choose a column --</option>
+                  {findSheet(sheetChoice.wagers)?.headers.map(header => (
+                    <option key={header} value={header}>{header}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {renderMappingTable('wagers')}
+            {renderMappingTable('transactions')}
+
+            <label className="block text-sm text-gray-700 mb-6">
+              <span className="block font-semibold mb-1">Date Format</span>
+              <span className="block text-xs text-gray-500 mb-1">
+                Used for dates typed as text, such as "03/04/2025". Dates formatted as dates in the spreadsheet are read as-is.
+              </span>
+              <select
+                value={dateOrder}
+                onChange={(e) => { setDateOrder(e.target.value as DateOrder); setPreview(null); }}
+                disabled={loading}
+                className="w-full sm:w-auto px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="mdy">Month first (03/04/2025 is March 4)</option>
+                <option value="dmy">Day first (03/04/2025 is 3 April)</option>
+              </select>
+            </label>
+
+            <fieldset className="mb-6">
+              <legend className="text-sm font-semibold text-gray-700 mb-2">Import Mode</legend>
+              <label className="flex items-start text-sm text-gray-700 mb-1">
+                <input
+                  type="radio"
+                  name="importMode"
+                  value="merge"
+                  checked={importMode === 'merge'}
+                  onChange={() => { setImportMode('merge'); setPreview(null); }}
+                  disabled={loading}
+                  className="mt-1 mr-2"
+                />
+                <span>Merge: add new rows and keep existing data, including edits made in the app</span>
+              </label>
+              <label className="flex items-start text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name="importMode"
+                  value="replace"
+                  checked={importMode === 'replace'}
+                  onChange={() => { setImportMode('replace'); setPreview(null); }}
+                  disabled={loading}
+                  className="mt-1 mr-2"
+                />
+                <span>Replace: delete all existing wagers and transactions, then import this file</span>
+              </label>
+            </fieldset>
+          </div>
+        )}
+
+        {renderPreview()}
+
         {error && (
           <div className="mb-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative" role="alert">
             <span className="block sm:inline">{error}</span>
@@ -133,22 +848,62 @@ const UploadData: React.FC = () => {
             <span className="block sm:inline">{message}</span>
           </div>
         )}
+        {!preview && issueReport && renderIssues(issueReport)}
 
         <button
-          onClick={memoizedHandleUpload} // Use memoized version
+          onClick={preview ? handleUpload : columns ? handlePreview : handleCheckColumns}
           disabled={!selectedFile || loading}
           className="w-full inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
         >
-          {loading ? (
-            <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-            </svg>
-          ) : (
-            'Upload & Process File'
-          )}
+          {loading ? spinner : preview ? 'Confirm & Import' : columns ? 'Preview Import' : 'Check Columns'}
         </button>
       </div>
+
+      <div className="bg-white p-8 rounded-lg shadow-md border border-gray-200 mt-8">
+        <h2 className="text-lg font-semibold mb-4 text-gray-800">Import History</h2>
+        {loadingBatches ? (
+          <p className="text-gray-500 italic">Loading import history...</p>
+        ) : batchesError ? (
+          <p className="text-red-500 italic">Error: {batchesError}</p>
+        ) : importBatches.length > 0 ? (
+          <ul className="space-y-3">
+            {importBatches.map(batch => (
+              <li key={batch.id} className="flex justify-between items-start border-b border-gray-100 pb-3 last:border-b-0">
+                <div className="text-sm">
+                  <span className="font-medium text-gray-800 block">{batch.file_name}</span>
+                  <span className="text-xs text-gray-500 block">
+                    {formatDistanceToNowStrict(new Date(batch.created_at), { addSuffix: true })}
+                    {batch.uploader_email && ` by ${batch.uploader_email}`}
+                    {' '}· {(batch.file_size / 1024).toFixed(1)} KB · {batch.import_mode}
+                  </span>
+                  <span className="text-xs text-gray-500 block">
+                    {batch.wagers_inserted} wagers and {batch.transactions_inserted} transactions added
+                    {batch.rows_unchanged > 0 && `, ${batch.rows_unchanged} unchanged`}
+                    {batch.rows_conflicting > 0 && `, ${batch.rows_conflicting} conflicting`}
+                    {batch.rows_skipped > 0 && `, ${batch.rows_skipped} skipped`}
+                  </span>
+                  <span className="text-xs text-gray-400 block font-mono" title="SHA-256 of the uploaded file">
+                    {batch.file_hash.slice(0, 12)}
+                  </span>
+                </div>
+                {batch.rolled_back_at ? (
+                  <span className="text-xs text-gray-500 italic">Undone</span>
+                ) : (
+                  <button
+                    onClick={() => handleRollback(batch)}
+                    disabled={rollingBackId !== null || loading}
+                    className="px-2 py-1 text-xs font-medium text-red-600 hover:text-red-800 rounded bg-red-100 hover:bg-red-200 transition-colors disabled:opacity-50"
+                  >
+                    {rollingBackId === batch.id ? 'Undoing...' : 'Undo'}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-500 italic">No imports yet.</p>
+        )}
+      </div>
     </div>
   );
 };
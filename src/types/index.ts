@@ -14,10 +14,12 @@ export interface UserFormData {
     interest_rate?: number | string | null;
     time_zone?: string | null;
     include_weekends?: boolean | null;
+    casino_bonus_id?: string | null; // Tracked casino bonus the calculator is pointed at
+    collection_interval_hours?: number | string | null;
 }
 
 // Type specifically for the form state (using strings for input fields)
-export interface FormState extends Omit<UserFormData, 'expected_reward' | 'tax_rate' | 'cc_return' | 'interest_rate' | 'include_weekends' | 'last_collection_time'> {
+export interface FormState extends Omit<UserFormData, 'expected_reward' | 'tax_rate' | 'cc_return' | 'interest_rate' | 'include_weekends' | 'last_collection_time' | 'casino_bonus_id' | 'collection_interval_hours'> {
     last_collection_time: string;
     expected_reward: string;
     tax_rate: string;
@@ -25,4 +27,6 @@ export interface FormState extends Omit<UserFormData, 'expected_reward' | 'tax_r
     interest_rate: string;
     time_zone: string;
     include_weekends: boolean;
+    casino_bonus_id: string; // '' when the calculator is not tied to a tracked casino bonus
+    collection_interval_hours: string;
 }
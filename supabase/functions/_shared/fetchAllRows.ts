@@ -0,0 +1,20 @@
+// supabase/functions/_shared/fetchAllRows.ts
+
+import { SupabaseClient } from "@supabase/supabase-js"; // Use alias from import map
+
+// Loads every stored row for the user, page by page (PostgREST caps a single response)
+export async function fetchAllRows<T>(client: SupabaseClient, table: string, columns: string, userId: string): Promise<T[]> {
+  const pageSize = 1000;
+  const rows: T[] = [];
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await client
+      .from(table)
+      .select(columns)
+      .eq('user_id', userId)
+      .order('id', { ascending: true })
+      .range(from, from + pageSize - 1);
+    if (error) throw error;
+    rows.push(...(data as T[]));
+    if (!data || data.length < pageSize) return rows;
+  }
+}
@@ -0,0 +1,115 @@
+// supabase/functions/_shared/spreadsheetColumns.ts
+
+// Describes one database field that can be filled from a spreadsheet column.
+export interface ColumnField {
+  key: string; // WagerRecord / TransactionRecord property name
+  label: string; // Canonical header, as used in the 'Ye ol' Free Casinos' workbook
+  aliases: string[]; // Other headers that mean the same thing
+  required: boolean;
+}
+
+// field key -> header text in the uploaded sheet (null when the field is not mapped)
+export type ColumnMapping = Record<string, string | null>;
+
+export interface WorkbookColumnMapping {
+  wagers: ColumnMapping;
+  transactions: ColumnMapping;
+}
+
+export const WAGER_FIELDS: ColumnField[] = [
+  { key: 'wager_date', label: 'Date', aliases: ['Wager Date', 'Play Date', 'Day'], required: true },
+  { key: 'casino_name', label: 'Casino Name', aliases: ['Casino', 'Site'], required: true },
+  { key: 'game_played', label: 'Game Played', aliases: ['Game', 'Game Name', 'Slot'], required: false },
+  { key: 'bet_size', label: 'Bet Size', aliases: ['Bet', 'Bet Amount', 'Stake'], required: false },
+  { key: 'num_plays', label: 'Num Plays', aliases: ['Number of Plays', '# of Plays', 'Plays', 'Spins'], required: false },
+  { key: 'ending_balance', label: 'Ending Balance', aliases: ['Balance', 'End Balance', 'Closing Balance'], required: false },
+  { key: 'total_wagered', label: 'Total Wagered', aliases: ['Wagered', 'Amount Wagered', 'Total Bet'], required: false },
+  { key: 'total_won', label: 'Total Won', aliases: ['Won', 'Winnings', 'Amount Won'], required: false },
+  { key: 'net_result', label: 'Net Result', aliases: ['Net', 'Net Win/Loss', 'Profit/Loss'], required: false },
+  { key: 'rtp', label: 'RTP', aliases: ['Return to Player', 'RTP %'], required: false },
+];
+
+export const TRANSACTION_FIELDS: ColumnField[] = [
+  { key: 'transaction_date', label: 'Date', aliases: ['Transaction Date', 'Day'], required: true },
+  { key: 'casino_name', label: 'Casino Name', aliases: ['Casino', 'Site'], required: true },
+  { key: 'type', label: 'Type', aliases: ['Transaction Type', 'Kind'], required: false },
+  { key: 'amount_spent', label: 'Amount Spent', aliases: ['Spent', 'Purchase Amount', 'Purchase'], required: false },
+  { key: 'redemption_request', label: 'Redemption Request', aliases: ['Redemption', 'Redeemed', 'Redemption Amount'], required: false },
+  { key: 'after_playthrough_value', label: 'After Playthrough Value', aliases: ['After Playthrough', 'Playthrough Value'], required: false },
+  { key: 'cc_points', label: 'Credit Card Points', aliases: ['CC Points', 'Card Points'], required: false },
+  { key: 'tax_implications', label: 'Tax Implications', aliases: ['Tax', 'Taxes'], required: false },
+];
+
+// Compares headers ignoring case, spacing and punctuation ("Wager Date" == "wager_date")
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/#/g, 'num').replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Picks the sheet header for every field by matching its label and aliases.
+ * Each header is used at most once, so the first matching field claims it.
+ */
+export function suggestColumnMapping(fields: ColumnField[], headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const claimed = new Set<string>();
+
+  for (const field of fields) {
+    const candidates = [field.label, ...field.aliases, field.key].map(normalizeHeader);
+    const match = headers.find(header => !claimed.has(header) && candidates.includes(normalizeHeader(header)));
+    mapping[field.key] = match ?? null;
+    if (match) claimed.add(match);
+  }
+
+  return mapping;
+}
+
+/**
+ * Combines a user-confirmed mapping with the suggestion for the current headers.
+ * Entries pointing at headers that are not in the sheet fall back to the suggestion;
+ * an explicit null keeps the field unmapped.
+ */
+export function resolveColumnMapping(
+  fields: ColumnField[],
+  headers: string[],
+  requested?: ColumnMapping | null
+): ColumnMapping {
+  const suggested = suggestColumnMapping(fields, headers);
+  if (!requested) return suggested;
+
+  const mapping: ColumnMapping = {};
+  for (const field of fields) {
+    const header = requested[field.key];
+    if (header === null) {
+      mapping[field.key] = null;
+    } else if (header !== undefined && headers.includes(header)) {
+      mapping[field.key] = header;
+    } else {
+      mapping[field.key] = suggested[field.key];
+    }
+  }
+  return mapping;
+}
+
+// Lists the labels of required fields that have no column assigned
+export function missingRequiredFields(fields: ColumnField[], mapping: ColumnMapping): string[] {
+  return fields.filter(field => field.required && !mapping[field.key]).map(field => field.label);
+}
+
+// When one sheet (e.g. a single CSV) holds both record types, this column says which is which
+export const RECORD_TYPE_COLUMN_ALIASES = ['Record Type', 'Record', 'Entry Type', 'Sheet'];
+
+export type RecordType = 'wagers' | 'transactions';
+
+export function suggestRecordTypeColumn(headers: string[]): string | null {
+  const candidates = RECORD_TYPE_COLUMN_ALIASES.map(normalizeHeader);
+  return headers.find(header => candidates.includes(normalizeHeader(header))) ?? null;
+}
+
+// Reads a record type cell ("Wager", "Transactions", ...); null when it is neither
+export function parseRecordType(value: unknown): RecordType | null {
+  if (value === null || value === undefined) return null;
+  const normalized = normalizeHeader(String(value));
+  if (normalized === 'wager' || normalized === 'wagers') return 'wagers';
+  if (normalized === 'transaction' || normalized === 'transactions') return 'transactions';
+  return null;
+}
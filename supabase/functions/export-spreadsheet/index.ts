@@ -0,0 +1,144 @@
+// supabase/functions/export-spreadsheet/index.ts
+
+import { serve } from "std/http/server"; // Use alias from import map
+import { corsHeaders } from "../_shared/cors.ts";
+import { createClient } from "@supabase/supabase-js"; // Use alias from import map
+import * as xlsx from "xlsx"; // Use alias from import map
+import { ColumnField, WAGER_FIELDS, TRANSACTION_FIELDS } from "../_shared/spreadsheetColumns.ts";
+import { fetchAllRows } from "../_shared/fetchAllRows.ts";
+
+// Columns of the Casinos sheet, one row per bonus. The importer does not read it back;
+// it documents the casinos tracked in the calculator alongside the wagering history.
+const CASINO_COLUMNS = [
+    { key: 'casino_name', label: 'Casino Name' },
+    { key: 'bonus_description', label: 'Casino Notes' },
+    { key: 'site_url', label: 'Website' },
+    { key: 'status', label: 'Status' },
+    { key: 'name', label: 'Bonus Name' },
+    { key: 'collection_interval_hours', label: 'Collection Interval (Hours)' },
+    { key: 'bonus_value', label: 'Bonus Value' },
+    { key: 'include_weekends', label: 'Include Weekends' },
+    { key: 'schedule_type', label: 'Schedule Type' },
+    { key: 'reset_time', label: 'Reset Time' },
+    { key: 'reset_time_zone', label: 'Reset Time Zone' },
+    { key: 'last_collected_at', label: 'Last Collected At' },
+];
+
+// SheetJS reads and writes dates in the runtime's local time zone, so build them the same way
+function toSheetDate(isoDate: string | null): Date | null {
+    if (!isoDate) return null;
+    const [year, month, day] = isoDate.slice(0, 10).split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+// Builds a sheet whose header row is the template's canonical labels, so the importer
+// maps every column automatically
+function buildSheet(
+    columns: { key: string; label: string }[],
+    records: Record<string, any>[],
+    dateKeys: string[] = []
+): xlsx.WorkSheet {
+    const rows = records.map(record => {
+        const row: Record<string, any> = {};
+        for (const { key, label } of columns) {
+            row[label] = dateKeys.includes(key) ? toSheetDate(record[key]) : record[key] ?? null;
+        }
+        return row;
+    });
+    const sheet = xlsx.utils.json_to_sheet(rows, { header: columns.map(column => column.label), dateNF: 'yyyy-mm-dd' });
+    sheet['!cols'] = columns.map(column => ({ wch: Math.max(12, column.label.length + 2) }));
+    return sheet;
+}
+
+const fieldColumns = (fields: ColumnField[]) => fields.map(({ key, label }) => ({ key, label }));
+
+const byDate = (dateKey: string) => (a: Record<string, any>, b: Record<string, any>) =>
+    String(a[dateKey] ?? '').localeCompare(String(b[dateKey] ?? ''));
+
+console.log('Function loaded. Setting up serve...');
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    // 1. Authentication & User ID
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+        console.error('Missing Authorization header');
+        throw new Error('Missing Authorization header');
+    }
+
+    // Reads go through the user's own client, so RLS limits them to the user's rows
+    const supabaseClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+        { global: { headers: { Authorization: authHeader } } }
+    );
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+
+    if (userError || !user) {
+        console.error('Error getting user or no user found:', userError);
+        throw new Error(userError?.message || 'User not found or invalid token');
+    }
+    const userId = user.id;
+
+    // 2. Options: { template: true } returns the sheets with headers only
+    const body = await req.json().catch(() => ({}));
+    const template = body?.template === true;
+    console.log(`Exporting ${template ? 'blank template' : 'workbook'} for user ${userId}`);
+
+    // 3. Load the user's data
+    let wagers: Record<string, any>[] = [];
+    let transactions: Record<string, any>[] = [];
+    let bonuses: Record<string, any>[] = [];
+    if (!template) {
+        const casinoKeys = ['casino_name', 'bonus_description', 'site_url'];
+        const bonusColumns = CASINO_COLUMNS.map(column => column.key).filter(key => !casinoKeys.includes(key) && key !== 'status');
+        [wagers, transactions, bonuses] = await Promise.all([
+            fetchAllRows<Record<string, any>>(supabaseClient, 'user_wagers', WAGER_FIELDS.map(field => field.key).join(', '), userId),
+            fetchAllRows<Record<string, any>>(supabaseClient, 'user_transactions', TRANSACTION_FIELDS.map(field => field.key).join(', '), userId),
+            fetchAllRows<Record<string, any>>(supabaseClient, 'casino_bonuses', `${bonusColumns.join(', ')}, created_at, tracked_casinos (${casinoKeys.join(', ')}, archived_at, deleted_at)`, userId),
+        ]);
+        wagers.sort(byDate('wager_date'));
+        transactions.sort(byDate('transaction_date'));
+        // Flatten the embedded casino onto each bonus row
+        bonuses = bonuses
+            .map(({ tracked_casinos: { archived_at, deleted_at, ...casino }, ...bonus }) => ({
+                ...bonus,
+                ...casino,
+                status: deleted_at ? 'Deleted' : archived_at ? 'Archived' : 'Active',
+            }))
+            .sort((a, b) => String(a.casino_name ?? '').localeCompare(String(b.casino_name ?? '')) || byDate('created_at')(a, b));
+        console.log(`Loaded ${wagers.length} wagers, ${transactions.length} transactions and ${bonuses.length} casino bonuses.`);
+    }
+
+    // 4. Build the workbook with the same sheet layout parse-spreadsheet expects
+    const workbook = xlsx.utils.book_new();
+    xlsx.utils.book_append_sheet(workbook, buildSheet(fieldColumns(WAGER_FIELDS), wagers, ['wager_date']), 'Wagers');
+    xlsx.utils.book_append_sheet(workbook, buildSheet(fieldColumns(TRANSACTION_FIELDS), transactions, ['transaction_date']), 'Transactions');
+    xlsx.utils.book_append_sheet(workbook, buildSheet(CASINO_COLUMNS, bonuses), 'Casinos');
+
+    const file: ArrayBuffer = xlsx.write(workbook, { type: 'array', bookType: 'xlsx', cellDates: true });
+    const fileName = template ? "Ye ol' Free Casinos - Template.xlsx" : `Ye ol' Free Casinos - ${new Date().toISOString().slice(0, 10)}.xlsx`;
+
+    // 5. Send the file. application/octet-stream makes supabase-js hand it back as a Blob.
+    return new Response(file, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error exporting spreadsheet:', error);
+    return new Response(JSON.stringify({ message: error.message || 'Internal Server Error' }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: error instanceof Error && (error.message.includes('Missing Authorization') || error.message.includes('User not found')) ? 400 : 500,
+    });
+  }
+});
@@ -0,0 +1,100 @@
+// supabase/functions/parse-spreadsheet/dates.ts
+
+// Order of day and month in numeric text dates such as "03/04/2025".
+// 'mdy' is the US order (March 4), 'dmy' the order used in most other locales (3 April).
+export type DateOrder = 'mdy' | 'dmy';
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Largest serial Excel accepts (9999-12-31)
+const MAX_EXCEL_SERIAL = 2958465;
+
+// Reads the 'dateOrder' form field sent by UploadData; anything unexpected falls back to US order
+export function parseDateOrder(raw: FormDataEntryValue | null): DateOrder {
+  return raw === 'dmy' ? 'dmy' : 'mdy';
+}
+
+// Formats a calendar date as YYYY-MM-DD, or null when it does not exist (e.g. 2025-02-30)
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 1900 || year > 9999 || month < 1 || month > 12 || day < 1) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Two-digit years are read as 2000-2049 or 1950-1999
+function expandYear(year: string): number {
+  const value = Number(year);
+  if (year.length > 2) return value;
+  return value < 50 ? 2000 + value : 1900 + value;
+}
+
+function monthFromName(name: string): number | null {
+  const index = MONTH_NAMES.indexOf(name.slice(0, 3).toLowerCase());
+  return index === -1 ? null : index + 1;
+}
+
+// Converts an Excel date serial number to YYYY-MM-DD; any time of day is dropped
+export function excelSerialToIsoDate(serial: number): string | null {
+  if (!Number.isFinite(serial) || serial < 1 || serial > MAX_EXCEL_SERIAL) return null;
+  // Excel day 0 is 1899-12-30, which also absorbs Excel's 1900 leap year bug
+  const excelEpoch = Date.UTC(1899, 11, 30);
+  const date = new Date(excelEpoch + Math.floor(serial) * 86400000);
+  return toIsoDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+}
+
+// Parses a text date; a trailing time ("10:00", "T10:00:00Z", "3:15 PM") is ignored
+function parseDateText(text: string, order: DateOrder): string | null {
+  const value = text.trim().replace(/,/g, ' ').replace(/\s+/g, ' ');
+  let match: RegExpMatchArray | null;
+
+  // 2025-03-14, 2025/03/14, 2025.03.14
+  if ((match = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ].*)?$/))) {
+    return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  // 3/14/2025, 14.03.2025, 14-03-25. A part above 12 settles the order on its own.
+  if ((match = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})(?: .*)?$/))) {
+    const first = Number(match[1]);
+    const second = Number(match[2]);
+    const year = expandYear(match[3]);
+    const dayFirst = first > 12 ? true : second > 12 ? false : order === 'dmy';
+    return dayFirst ? toIsoDate(year, second, first) : toIsoDate(year, first, second);
+  }
+
+  // Mar 14 2025, March 14th 2025
+  if ((match = value.match(/^([a-z]{3,})\.? (\d{1,2})(?:st|nd|rd|th)? (\d{4})(?: .*)?$/i))) {
+    const month = monthFromName(match[1]);
+    return month === null ? null : toIsoDate(Number(match[3]), month, Number(match[2]));
+  }
+
+  // 14 Mar 2025, 14-Mar-2025, 14 March 25
+  if ((match = value.match(/^(\d{1,2})(?:st|nd|rd|th)?[- ]([a-z]{3,})\.?[- ](\d{2}|\d{4})(?: .*)?$/i))) {
+    const month = monthFromName(match[2]);
+    return month === null ? null : toIsoDate(expandYear(match[3]), month, Number(match[1]));
+  }
+
+  // A serial number that arrived as text, e.g. from a CSV written by Excel
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return excelSerialToIsoDate(Number(value));
+  }
+
+  return null;
+}
+
+/**
+ * Normalizes a spreadsheet date cell to YYYY-MM-DD.
+ * Accepts JS dates (workbooks read with cellDates), Excel serial numbers, ISO strings
+ * and numeric or month-name text dates; `order` decides ambiguous ones like "03/04/2025".
+ * Returns null when the value is not a recognizable date.
+ */
+export function normalizeDate(value: unknown, order: DateOrder): string | null {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    // SheetJS builds dates in the runtime's local time zone, so read them back the same way
+    return toIsoDate(value.getFullYear(), value.getMonth() + 1, value.getDate());
+  }
+  if (typeof value === 'number') return excelSerialToIsoDate(value);
+  if (typeof value === 'string') return parseDateText(value, order);
+  return null;
+}
@@ -0,0 +1,8 @@
+// supabase/functions/parse-spreadsheet/hash.ts
+
+// Hex-encoded SHA-256 of a string or raw file bytes
+export async function sha256Hex(input: string | ArrayBuffer): Promise<string> {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
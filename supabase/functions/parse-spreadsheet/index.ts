@@ -4,64 +4,104 @@ import { serve } from "std/http/server"; // Use alias from import map
 import { corsHeaders } from "../_shared/cors.ts";
 import { createClient } from "@supabase/supabase-js"; // Use alias from import map
 import * as xlsx from "xlsx"; // Use alias from import map
+import {
+  ColumnField,
+  WorkbookColumnMapping,
+  WAGER_FIELDS,
+  TRANSACTION_FIELDS,
+  resolveColumnMapping,
+  suggestColumnMapping,
+  missingRequiredFields,
+  parseRecordType,
+  suggestRecordTypeColumn,
+} from "../_shared/spreadsheetColumns.ts";
+import { ImportIssue, parseTransactionRows, parseWagerRows, safeToString, sheetRowNumber } from "./rows.ts";
+import {
+  MergeConflict,
+  MergeSummary,
+  fingerprintTransactions,
+  fingerprintWagers,
+  planTransactionMerge,
+  planWagerMerge,
+} from "./merge.ts";
+import { sha256Hex } from "./hash.ts";
+import { parseDateOrder } from "./dates.ts";
+
+// Reads the first row of a sheet as its header names
+function readSheetHeaders(sheet: xlsx.WorkSheet): string[] {
+    const rows: any[][] = xlsx.utils.sheet_to_json(sheet, { header: 1, blankrows: false });
+    const headerRow = rows[0] ?? [];
+    return headerRow
+        .map(cell => safeToString(cell))
+        .filter((header): header is string => header !== null);
+}
 
-interface WagerRecord {
-  user_id: string;
-  wager_date: string | null; // Store as ISO string or YYYY-MM-DD
-  casino_name: string | null;
-  game_played: string | null;
-  bet_size: number | null;
-  num_plays: number | null;
-  ending_balance: number | null;
-  total_wagered: number | null;
-  total_won: number | null;
-  net_result: number | null;
-  rtp: number | null;
+// Reads the rows of a sheet as objects keyed by header. sheet_to_json keys them by the raw
+// header text, so the keys are trimmed the way readSheetHeaders trims the header names.
+function readSheetRows(sheet: xlsx.WorkSheet): Record<string, any>[] {
+    const rows: Record<string, any>[] = xlsx.utils.sheet_to_json(sheet, { defval: null });
+    return rows.map(row => {
+        const trimmed: Record<string, any> = {};
+        for (const [key, value] of Object.entries(row)) {
+            trimmed[key.trim()] = value;
+        }
+        // The sheet row index isn't enumerable, so it has to be carried over by hand
+        Object.defineProperty(trimmed, '__rowNum__', { value: (row as { __rowNum__?: number }).__rowNum__, enumerable: false });
+        return trimmed;
+    });
 }
 
-interface TransactionRecord {
-  user_id: string;
-  transaction_date: string | null; // Store as ISO string or YYYY-MM-DD
-  casino_name: string | null;
-  type: string | null;
-  amount_spent: number | null;
-  redemption_request: number | null;
-  after_playthrough_value: number | null;
-  cc_points: number | null;
-  tax_implications: number | null;
+// Parses the optional 'columnMapping' form field sent by UploadData
+function parseColumnMapping(raw: FormDataEntryValue | null): WorkbookColumnMapping | null {
+    if (typeof raw !== 'string' || raw.trim() === '') return null;
+    try {
+        return JSON.parse(raw) as WorkbookColumnMapping;
+    } catch (_e) {
+        throw new Error('Column mapping could not be read. Please re-confirm the column mapping.');
+    }
 }
 
-// Helper to safely convert Excel value to number
-function safeToNumber(value: any): number | null {
-  if (value === null || value === undefined || value === '') return null;
-  const num = Number(value);
-  return isNaN(num) ? null : num;
+// Public description of the fields, so the client can render the mapping step
+function describeFields(fields: ColumnField[]) {
+    return fields.map(({ key, label, required }) => ({ key, label, required }));
 }
 
-// Helper to safely convert Excel value to string
-function safeToString(value: any): string | null {
-    if (value === null || value === undefined) return null;
-    return String(value).trim() || null; // Return null if empty string after trim
+// Resolves a sheet choice from the form. An empty value means the record type is not
+// in this file; a missing value falls back to the template's sheet name if present.
+function selectSheet(workbook: xlsx.WorkBook, raw: FormDataEntryValue | null, defaultName: string): string | null {
+    if (typeof raw === 'string') {
+        if (raw === '') return null;
+        if (!workbook.SheetNames.includes(raw)) {
+            throw new Error(`Sheet '${raw}' not found in the spreadsheet.`);
+        }
+        return raw;
+    }
+    return workbook.SheetNames.includes(defaultName) ? defaultName : null;
 }
 
-// Helper to convert Excel date serial number to YYYY-MM-DD string
-// SheetJS provides utilities or we handle manually if needed
-function excelSerialDateToYYYYMMDD(serial: number | string | null): string | null {
-    if (typeof serial !== 'number') return null;
-    if (serial <= 0) return null;
-    // Excel serial date starts from 1 representing 1900-01-01
-    // JavaScript Date counts milliseconds from 1970-01-01 UTC
-    // Need to account for Excel's leap year bug (treating 1900 as leap year)
-    const excelEpoch = new Date(Date.UTC(1899, 11, 30)); // Excel day 0 is 1899-12-30
-    const jsDate = new Date(excelEpoch.getTime() + serial * 86400000); // 86400000 ms in a day
-
-    if (isNaN(jsDate.getTime())) return null; // Invalid date calculation
-
-    // Format to YYYY-MM-DD (UTC to avoid timezone issues with just date)
-    const year = jsDate.getUTCFullYear();
-    const month = (jsDate.getUTCMonth() + 1).toString().padStart(2, '0');
-    const day = jsDate.getUTCDate().toString().padStart(2, '0');
-    return `${year}-${month}-${day}`;
+// Splits a sheet holding both record types using its record type column
+function splitRowsByRecordType(sheet: string, rows: Record<string, any>[], recordTypeColumn: string) {
+    const split = {
+        wagers: [] as Record<string, any>[],
+        transactions: [] as Record<string, any>[],
+        issues: [] as ImportIssue[],
+    };
+    rows.forEach((row, index) => {
+        const recordType = parseRecordType(row[recordTypeColumn]);
+        if (recordType) {
+            split[recordType].push(row);
+        } else if (Object.values(row).some(value => value !== null && value !== '')) {
+            split.issues.push({
+                sheet,
+                row: sheetRowNumber(row, index),
+                column: recordTypeColumn,
+                value: row[recordTypeColumn] ?? null,
+                problem: 'Unknown record type (expected Wager or Transaction); row skipped',
+                rowSkipped: true,
+            });
+        }
+    });
+    return split;
 }
 
 console.log('Function loaded. Setting up serve...');
@@ -109,6 +149,15 @@ serve(async (req: Request) => {
     console.log('Attempting to read FormData...');
     const formData = await req.formData();
     const file = formData.get('spreadsheet') as File | null;
+    // 'headers' inspects the sheets for the mapping step, 'preview' parses without writing,
+    // anything else imports
+    const requestedMode = formData.get('mode');
+    const mode = requestedMode === 'headers' || requestedMode === 'preview' ? requestedMode : 'import';
+    // 'merge' (default) keeps stored rows and only adds new ones; 'replace' wipes and re-inserts
+    const importMode = formData.get('importMode') === 'replace' ? 'replace' : 'merge';
+    const requestedMapping = parseColumnMapping(formData.get('columnMapping'));
+    // Decides ambiguous text dates such as "03/04/2025"
+    const dateOrder = parseDateOrder(formData.get('dateOrder'));
 
     if (!file) {
         console.error('Could not find \'spreadsheet\' field in FormData');
@@ -125,108 +174,113 @@ serve(async (req: Request) => {
         throw new Error('Received empty file');
     }
 
+    // SheetJS detects the format from the content: .xlsx, .ods and .csv all work here.
+    // A CSV becomes a workbook with a single sheet. Date cells come back as JS dates, and
+    // CSV cells stay text so dates are read with the user's date order (see dates.ts).
     console.log('Parsing workbook...');
-    const workbook = xlsx.read(new Uint8Array(buffer), { type: 'array' });
+    const workbook = xlsx.read(new Uint8Array(buffer), { type: 'array', cellDates: true, raw: true });
     console.log('Workbook parsed. Sheets:', workbook.SheetNames);
 
-    // Check for required sheets
-    if (!workbook.SheetNames.includes('Wagers') || !workbook.SheetNames.includes('Transactions')) {
-        console.error('Missing required sheets: Wagers or Transactions');
-        throw new Error('Spreadsheet must contain both \'Wagers\' and \'Transactions\' sheets.');
-    }
-    console.log('Required sheets found.');
-
-    // Parse 'Wagers' sheet
-    const wagersSheetName = 'Wagers'; // Adjust if sheet name is different
-    const wagersSheet = workbook.Sheets[wagersSheetName];
-    if (!wagersSheet) {
-      return new Response(JSON.stringify({ error: `Sheet '${wagersSheetName}' not found in the spreadsheet.` }), {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+    if (workbook.SheetNames.length === 0) {
+        throw new Error('The uploaded file does not contain any sheets.');
     }
-    const wagersData: any[] = xlsx.utils.sheet_to_json(wagersSheet);
-    console.log('[DEBUG] Raw Wagers Data Parsed:', JSON.stringify(wagersData, null, 2));
-    const parsedWagers: WagerRecord[] = [];
-
-    console.log(`Found ${wagersData.length} rows in ${wagersSheetName}`);
-
-    for (const row of wagersData) {
-        // Assuming column order based on ChatGPT description:
-        // Date[0], Casino Name[1], Game Played[2], Bet Size[3], Num Plays[4],
-        // Ending Balance[5], Total Wagered[6], Total Won[7], Net Result[8], RTP[9]
-        if (!row || row.length === 0 || row.every(cell => cell === null || cell === '')) continue; // Skip empty rows
-
-        // Basic check: Ensure at least a date and casino name exist?
-        if (!row[0] || !row[1]) {
-            console.warn("Skipping wager row due to missing Date or Casino Name:", row);
-            continue;
-        }
 
-        const wager: WagerRecord = {
-            user_id: userId,
-            // IMPORTANT: xlsx library with cellDates:true might return JS Date objects.
-            // If it returns serial numbers, use excelSerialDateToYYYYMMDD. Check output.
-            // If it returns JS Date, format it.
-            wager_date: row[0] instanceof Date ? row[0].toISOString().split('T')[0] : excelSerialDateToYYYYMMDD(row[0]),
-            casino_name: safeToString(row[1]),
-            game_played: safeToString(row[2]),
-            bet_size: safeToNumber(row[3]),
-            num_plays: safeToNumber(row[4]),
-            ending_balance: safeToNumber(row[5]),
-            total_wagered: safeToNumber(row[6]),
-            total_won: safeToNumber(row[7]),
-            net_result: safeToNumber(row[8]),
-            rtp: safeToNumber(row[9]),
-        };
-
-        // Additional validation if needed (e.g., check if numeric fields parsed correctly)
-        parsedWagers.push(wager);
+    // 3. Match columns by header name (confirmed by the user in UploadData when provided)
+    if (mode === 'headers') {
+        console.log('Returning sheet headers and suggested column mapping.');
+        const sheets = workbook.SheetNames.map(name => {
+            const headers = readSheetHeaders(workbook.Sheets[name]);
+            return {
+                name,
+                headers,
+                suggestedMapping: {
+                    wagers: suggestColumnMapping(WAGER_FIELDS, headers),
+                    transactions: suggestColumnMapping(TRANSACTION_FIELDS, headers),
+                },
+                suggestedRecordTypeColumn: suggestRecordTypeColumn(headers),
+            };
+        });
+        return new Response(JSON.stringify({
+            sheets,
+            fields: {
+                wagers: describeFields(WAGER_FIELDS),
+                transactions: describeFields(TRANSACTION_FIELDS),
+            },
+        }), {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
     }
-    console.log(`Successfully parsed ${parsedWagers.length} wager records.`);
 
-    // Parse 'Transactions' sheet
-    const transactionsSheetName = 'Transactions'; // Adjust if sheet name is different
-    const transactionsSheet = workbook.Sheets[transactionsSheetName];
-    if (!transactionsSheet) {
-      return new Response(JSON.stringify({ error: `Sheet '${transactionsSheetName}' not found in the spreadsheet.` }), {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+    // Which sheet holds which record type. Older clients don't send a choice, so fall
+    // back to the 'Wagers' and 'Transactions' sheets of the original template.
+    const wagersSheetName = selectSheet(workbook, formData.get('wagersSheet'), 'Wagers');
+    const transactionsSheetName = selectSheet(workbook, formData.get('transactionsSheet'), 'Transactions');
+    if (!wagersSheetName && !transactionsSheetName) {
+        throw new Error('Choose the sheet that holds wagers, transactions, or both.');
+    }
+    console.log('Selected sheets:', { wagersSheetName, transactionsSheetName });
+
+    const wagersHeaders = wagersSheetName ? readSheetHeaders(workbook.Sheets[wagersSheetName]) : [];
+    const transactionsHeaders = transactionsSheetName ? readSheetHeaders(workbook.Sheets[transactionsSheetName]) : [];
+
+    const wagerMapping = resolveColumnMapping(WAGER_FIELDS, wagersHeaders, requestedMapping?.wagers);
+    const transactionMapping = resolveColumnMapping(TRANSACTION_FIELDS, transactionsHeaders, requestedMapping?.transactions);
+    console.log('Resolved column mapping:', { wagerMapping, transactionMapping });
+
+    const missingWagerColumns = wagersSheetName ? missingRequiredFields(WAGER_FIELDS, wagerMapping) : [];
+    const missingTransactionColumns = transactionsSheetName ? missingRequiredFields(TRANSACTION_FIELDS, transactionMapping) : [];
+    if (missingWagerColumns.length > 0 || missingTransactionColumns.length > 0) {
+        const missing = [
+            ...missingWagerColumns.map(label => `Wagers: ${label}`),
+            ...missingTransactionColumns.map(label => `Transactions: ${label}`),
+        ];
+        throw new Error(`Column mapping is missing required columns (${missing.join(', ')}).`);
     }
-    const transactionsData: any[] = xlsx.utils.sheet_to_json(transactionsSheet);
-    console.log('[DEBUG] Raw Transactions Data Parsed:', JSON.stringify(transactionsData, null, 2));
-    const parsedTransactions: TransactionRecord[] = [];
-
-    console.log(`Found ${transactionsData.length} rows in ${transactionsSheetName}`);
-
-    for (const row of transactionsData) {
-        // Assuming column order:
-        // Date[0], Casino Name[1], Type[2], Amount Spent[3], Redemption Request[4],
-        // After Playthrough Value[5], Credit Card Points[6], Tax Implications[7]
-        if (!row || row.length === 0 || row.every(cell => cell === null || cell === '')) continue;
-
-        // Basic check
-        if (!row[0] || !row[1]) {
-            console.warn("Skipping transaction row due to missing Date or Casino Name:", row);
-            continue;
+
+    // Rows of each selected sheet, split by the record type column when both types share one sheet
+    const rowsBySheet = new Map<string, Record<string, any>[]>();
+    const sheetRows = (name: string) => {
+        if (!rowsBySheet.has(name)) {
+            rowsBySheet.set(name, readSheetRows(workbook.Sheets[name]));
         }
+        return rowsBySheet.get(name) as Record<string, any>[];
+    };
 
-        const transaction: TransactionRecord = {
-            user_id: userId,
-            transaction_date: row[0] instanceof Date ? row[0].toISOString().split('T')[0] : excelSerialDateToYYYYMMDD(row[0]),
-            casino_name: safeToString(row[1]),
-            type: safeToString(row[2]),
-            amount_spent: safeToNumber(row[3]),
-            redemption_request: safeToNumber(row[4]),
-            after_playthrough_value: safeToNumber(row[5]),
-            cc_points: safeToNumber(row[6]),
-            tax_implications: safeToNumber(row[7]),
-        };
-        parsedTransactions.push(transaction);
+    let wagersData: Record<string, any>[] = wagersSheetName ? sheetRows(wagersSheetName) : [];
+    let transactionsData: Record<string, any>[] = transactionsSheetName ? sheetRows(transactionsSheetName) : [];
+    const splitIssues: ImportIssue[] = [];
+
+    if (wagersSheetName && wagersSheetName === transactionsSheetName) {
+        const recordTypeColumn = safeToString(formData.get('recordTypeColumn')) ?? suggestRecordTypeColumn(wagersHeaders);
+        if (!recordTypeColumn || !wagersHeaders.includes(recordTypeColumn)) {
+            throw new Error(`Column mapping needs a record type column to tell wagers and transactions apart in sheet '${wagersSheetName}'.`);
+        }
+        const split = splitRowsByRecordType(wagersSheetName, sheetRows(wagersSheetName), recordTypeColumn);
+        wagersData = split.wagers;
+        transactionsData = split.transactions;
+        splitIssues.push(...split.issues);
     }
+
+    // Parse wagers
+    console.log(`Found ${wagersData.length} wager rows in ${wagersSheetName ?? '(none)'}`);
+    const wagers = parseWagerRows(wagersSheetName ?? '', wagersData, wagerMapping, dateOrder, userId);
+    const parsedWagers = wagers.records;
+    console.log(`Successfully parsed ${parsedWagers.length} wager records.`);
+
+    // Parse transactions
+    console.log(`Found ${transactionsData.length} transaction rows in ${transactionsSheetName ?? '(none)'}`);
+    const transactions = parseTransactionRows(transactionsSheetName ?? '', transactionsData, transactionMapping, dateOrder, userId);
+    const parsedTransactions = transactions.records;
     console.log(`Successfully parsed ${parsedTransactions.length} transaction records.`);
 
+    // Row-level problems go back to the client, which shows them and offers them as a CSV report
+    const issues = [...splitIssues, ...wagers.issues, ...transactions.issues];
+    const rowsSkipped = issues.filter(issue => issue.rowSkipped).length;
+    if (issues.length > 0) {
+        console.warn(`Found ${issues.length} issues; ${rowsSkipped} rows skipped.`);
+    }
+
     // 4. Database Operations (Use Admin Client to bypass RLS)
     // IMPORTANT: Use the Service Role Key for admin actions
     const supabaseAdmin = createClient(
@@ -234,51 +288,105 @@ serve(async (req: Request) => {
         Deno.env.get('SERVICE_ROLE_KEY') ?? '' // Use Service Role Key!
     );
 
-    // Delete existing data for the user (wrap in transaction if possible/needed)
-    // Note: Supabase JS v2 doesn't have explicit transaction support easily usable here.
-    // We rely on sequential execution. If one delete fails, insert might still happen.
-    // Consider more robust handling for production (e.g., stored procedures).
-
-    console.log(`Deleting existing data for user ${userId}...`);
-    const { error: deleteWagersError } = await supabaseAdmin
-        .from('user_wagers')
-        .delete()
-        .eq('user_id', userId);
-
-    if (deleteWagersError) throw deleteWagersError;
-    console.log("Existing wagers deleted.");
-
-    const { error: deleteTransactionsError } = await supabaseAdmin
-        .from('user_transactions')
-        .delete()
-        .eq('user_id', userId);
-
-    if (deleteTransactionsError) throw deleteTransactionsError;
-    console.log("Existing transactions deleted.");
-
-    // Insert new data
-    console.log(`Inserting ${parsedWagers.length} wagers and ${parsedTransactions.length} transactions...`);
-    if (parsedWagers.length > 0) {
-        const { error: insertWagersError } = await supabaseAdmin
-            .from('user_wagers')
-            .insert(parsedWagers);
-        if (insertWagersError) throw insertWagersError;
-        console.log("New wagers inserted.");
+    // Work out what a merge would do; a preview reports it without writing anything
+    let wagersToInsert;
+    let transactionsToInsert;
+    let mergeSummary: { wagers: MergeSummary; transactions: MergeSummary } | null = null;
+    let conflicts: MergeConflict[] = [];
+
+    if (importMode === 'merge') {
+        console.log(`Comparing uploaded rows with stored data for user ${userId}...`);
+        // Record types that are not in this file are left out of the comparison entirely
+        const emptyPlan = { toInsert: [], summary: { inserted: 0, unchanged: 0, conflicting: 0 }, conflicts: [] };
+        const wagerPlan = wagersSheetName
+            ? await planWagerMerge(supabaseAdmin, wagersSheetName, userId, parsedWagers)
+            : emptyPlan;
+        const transactionPlan = transactionsSheetName
+            ? await planTransactionMerge(supabaseAdmin, transactionsSheetName, userId, parsedTransactions)
+            : emptyPlan;
+        wagersToInsert = wagerPlan.toInsert;
+        transactionsToInsert = transactionPlan.toInsert;
+        mergeSummary = { wagers: wagerPlan.summary, transactions: transactionPlan.summary };
+        conflicts = [...wagerPlan.conflicts, ...transactionPlan.conflicts];
+        console.log('Merge plan:', mergeSummary);
+    } else {
+        wagersToInsert = await fingerprintWagers(parsedWagers);
+        transactionsToInsert = await fingerprintTransactions(parsedTransactions);
     }
 
-    if (parsedTransactions.length > 0) {
-        const { error: insertTransactionsError } = await supabaseAdmin
-            .from('user_transactions')
-            .insert(parsedTransactions);
-        if (insertTransactionsError) throw insertTransactionsError;
-        console.log("New transactions inserted.");
+    // Dry run: hand back the normalized rows without touching the database
+    if (mode === 'preview') {
+        const stripUserId = <T extends { user_id: string }>({ user_id: _userId, ...record }: T) => record;
+        return new Response(JSON.stringify({
+            importMode,
+            wagersSheet: wagersSheetName,
+            transactionsSheet: transactionsSheetName,
+            wagers: parsedWagers.map(stripUserId),
+            transactions: parsedTransactions.map(stripUserId),
+            issues,
+            mergeSummary,
+            conflicts,
+        }), {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
     }
 
+    // Delete (replace mode) and insert in one database transaction via a Postgres function,
+    // so a failure part-way through leaves the user's previous data untouched.
+    console.log(`Importing ${wagersToInsert.length} wagers and ${transactionsToInsert.length} transactions (${importMode})...`);
+    // The import is recorded as a batch so it can be listed and rolled back later
+    const batch = {
+        uploader_email: user.email ?? null,
+        file_name: file.name,
+        file_size: file.size,
+        file_hash: await sha256Hex(buffer),
+        rows_unchanged: mergeSummary ? mergeSummary.wagers.unchanged + mergeSummary.transactions.unchanged : 0,
+        rows_conflicting: mergeSummary ? mergeSummary.wagers.conflicting + mergeSummary.transactions.conflicting : 0,
+        rows_skipped: rowsSkipped,
+    };
+    const { data: importResult, error: importError } = await supabaseAdmin.rpc('import_spreadsheet_rows', {
+        p_user_id: userId,
+        p_replace: importMode === 'replace',
+        p_batch: batch,
+        // null marks a record type that is not in this file, so 'replace' leaves it alone
+        p_wagers: wagersSheetName ? wagersToInsert : null,
+        p_transactions: transactionsSheetName ? transactionsToInsert : null,
+    });
+
+    if (importError) {
+        console.error('Import transaction failed and was rolled back:', importError);
+        throw new Error(`Import failed and was rolled back, so your existing data is unchanged. Details: ${importError.message}`);
+    }
+    const wagersAdded: number = importResult?.wagers_inserted ?? 0;
+    const transactionsAdded: number = importResult?.transactions_inserted ?? 0;
+    const batchId: string | null = importResult?.batch_id ?? null;
+    console.log(`Import committed as batch ${batchId}: ${wagersAdded} wagers and ${transactionsAdded} transactions inserted.`);
+
+    // Rows inserted by a concurrent upload in the meantime count as unchanged
+    if (mergeSummary) {
+        mergeSummary.wagers.unchanged += mergeSummary.wagers.inserted - wagersAdded;
+        mergeSummary.wagers.inserted = wagersAdded;
+        mergeSummary.transactions.unchanged += mergeSummary.transactions.inserted - transactionsAdded;
+        mergeSummary.transactions.inserted = transactionsAdded;
+    }
+
+    const resultMessage = mergeSummary
+        ? `Successfully merged spreadsheet. Wagers: ${mergeSummary.wagers.inserted} added, ${mergeSummary.wagers.unchanged} unchanged, ${mergeSummary.wagers.conflicting} conflicting. ` +
+          `Transactions: ${mergeSummary.transactions.inserted} added, ${mergeSummary.transactions.unchanged} unchanged, ${mergeSummary.transactions.conflicting} conflicting.`
+        : `Successfully processed spreadsheet. Added ${wagersAdded} wager records and ${transactionsAdded} transaction records.`;
+
     // 5. Send Success Response
     return new Response(JSON.stringify({
-        message: `Successfully processed spreadsheet. Added ${parsedWagers.length} wager records and ${parsedTransactions.length} transaction records.`,
-        wagersAdded: parsedWagers.length,
-        transactionsAdded: parsedTransactions.length,
+        message: resultMessage,
+        batchId,
+        importMode,
+        wagersAdded,
+        transactionsAdded,
+        rowsSkipped,
+        issues,
+        mergeSummary,
+        conflicts,
      }), {
       status: 200,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -289,7 +397,7 @@ serve(async (req: Request) => {
     // Ensure CORS headers are included in error responses too
     return new Response(JSON.stringify({ message: error.message || 'Internal Server Error' }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: error instanceof Error && (error.message.includes('sheet') || error.message.includes('Missing Authorization') || error.message.includes('User not found') || error.message.includes('empty file') || error.message.includes('not found in request data')) ? 400 : 500, // Use 400 for specific client errors
+      status: error instanceof Error && (error.message.includes('sheet') || error.message.includes('Column mapping') || error.message.includes('Missing Authorization') || error.message.includes('User not found') || error.message.includes('empty file') || error.message.includes('not found in request data')) ? 400 : 500, // Use 400 for specific client errors
     });
   }
 });
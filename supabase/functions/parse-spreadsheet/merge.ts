@@ -0,0 +1,185 @@
+// supabase/functions/parse-spreadsheet/merge.ts
+
+import { SupabaseClient } from "@supabase/supabase-js"; // Use alias from import map
+import { TransactionRecord, WagerRecord } from "./rows.ts";
+import { sha256Hex } from "./hash.ts";
+import { fetchAllRows } from "../_shared/fetchAllRows.ts";
+
+// How a record is identified across uploads
+interface RecordIdentity {
+  key: string; // Natural key: date, casino and game/type. Not unique on its own.
+  content: unknown[]; // Everything that goes into the fingerprint
+}
+
+export interface MergeSummary {
+  inserted: number;
+  unchanged: number;
+  conflicting: number;
+}
+
+// An uploaded row whose natural key matches a stored row with different values.
+// The stored row is left alone and the uploaded row is not inserted.
+export interface MergeConflict {
+  sheet: string;
+  date: string | null;
+  casino_name: string | null;
+  detail: string | null; // Game played or transaction type
+}
+
+export interface MergePlan<T> {
+  toInsert: (T & { fingerprint: string })[];
+  summary: MergeSummary;
+  conflicts: MergeConflict[];
+}
+
+type StoredWager = Omit<WagerRecord, 'user_id'> & { fingerprint: string | null };
+type StoredTransaction = Omit<TransactionRecord, 'user_id'> & { fingerprint: string | null };
+
+const normalizeText = (value: string | null) => (value ?? '').trim().toLowerCase();
+
+const wagerIdentity = (wager: Omit<WagerRecord, 'user_id'>): RecordIdentity => {
+  const key = [wager.wager_date, normalizeText(wager.casino_name), normalizeText(wager.game_played)].join('|');
+  return {
+    key,
+    content: [key, wager.bet_size, wager.num_plays, wager.ending_balance, wager.total_wagered, wager.total_won, wager.net_result, wager.rtp],
+  };
+};
+
+const transactionIdentity = (transaction: Omit<TransactionRecord, 'user_id'>): RecordIdentity => {
+  const key = [transaction.transaction_date, normalizeText(transaction.casino_name), normalizeText(transaction.type)].join('|');
+  return {
+    key,
+    content: [
+      key,
+      transaction.amount_spent,
+      transaction.redemption_request,
+      transaction.after_playthrough_value,
+      transaction.cc_points,
+      transaction.tax_implications,
+    ],
+  };
+};
+
+/**
+ * Computes a stable fingerprint per record. Identical rows in the same upload are
+ * told apart by their occurrence number, so a sheet with two identical sessions
+ * keeps both of them on every re-upload.
+ */
+async function fingerprintAll<T>(records: T[], identify: (record: T) => RecordIdentity) {
+  const occurrences = new Map<string, number>();
+  return Promise.all(records.map(async record => {
+    const identity = identify(record);
+    const content = JSON.stringify(identity.content);
+    const occurrence = (occurrences.get(content) ?? 0) + 1;
+    occurrences.set(content, occurrence);
+    return { record, key: identity.key, fingerprint: await sha256Hex(`${content}#${occurrence}`) };
+  }));
+}
+
+/**
+ * Decides which uploaded records are new, unchanged or conflicting.
+ * Stored rows keep the fingerprint they were imported with, so rows edited in the
+ * app still match the original spreadsheet row and are reported as unchanged.
+ */
+async function planMerge<T, S>(
+  sheet: string,
+  incoming: T[],
+  stored: S[],
+  identifyIncoming: (record: T) => RecordIdentity,
+  identifyStored: (row: S) => RecordIdentity,
+  storedFingerprint: (row: S) => string | null,
+  describe: (record: T) => Omit<MergeConflict, 'sheet'>
+): Promise<MergePlan<T>> {
+  const incomingFingerprinted = await fingerprintAll(incoming, identifyIncoming);
+
+  // Rows imported before fingerprints existed get one computed from their current values
+  const storedFingerprinted = await fingerprintAll(stored, identifyStored);
+  const storedFingerprints = new Set<string>();
+  const storedByFingerprint = new Map<string, string>(); // fingerprint -> natural key
+  storedFingerprinted.forEach(({ record, key, fingerprint }) => {
+    const effective = storedFingerprint(record) ?? fingerprint;
+    storedFingerprints.add(effective);
+    storedByFingerprint.set(effective, key);
+  });
+
+  const plan: MergePlan<T> = { toInsert: [], summary: { inserted: 0, unchanged: 0, conflicting: 0 }, conflicts: [] };
+
+  // Stored rows that no uploaded row matches, per natural key. An unmatched upload row
+  // with the same key is treated as a changed version of one of them.
+  const unmatchedStoredByKey = new Map<string, number>();
+  const matchedFingerprints = new Set(
+    incomingFingerprinted.filter(({ fingerprint }) => storedFingerprints.has(fingerprint)).map(({ fingerprint }) => fingerprint)
+  );
+  storedByFingerprint.forEach((key, fingerprint) => {
+    if (!matchedFingerprints.has(fingerprint)) {
+      unmatchedStoredByKey.set(key, (unmatchedStoredByKey.get(key) ?? 0) + 1);
+    }
+  });
+
+  for (const { record, key, fingerprint } of incomingFingerprinted) {
+    if (storedFingerprints.has(fingerprint)) {
+      plan.summary.unchanged++;
+      continue;
+    }
+
+    const unmatchedStored = unmatchedStoredByKey.get(key) ?? 0;
+    if (unmatchedStored > 0) {
+      unmatchedStoredByKey.set(key, unmatchedStored - 1);
+      plan.summary.conflicting++;
+      plan.conflicts.push({ sheet, ...describe(record) });
+      continue;
+    }
+
+    plan.summary.inserted++;
+    plan.toInsert.push({ ...record, fingerprint });
+  }
+
+  return plan;
+}
+
+export async function planWagerMerge(admin: SupabaseClient, sheet: string, userId: string, wagers: WagerRecord[]) {
+  const stored = await fetchAllRows<StoredWager>(
+    admin,
+    'user_wagers',
+    'fingerprint, wager_date, casino_name, game_played, bet_size, num_plays, ending_balance, total_wagered, total_won, net_result, rtp',
+    userId
+  );
+  return planMerge(
+    sheet,
+    wagers,
+    stored,
+    wagerIdentity,
+    wagerIdentity,
+    row => row.fingerprint,
+    wager => ({ date: wager.wager_date, casino_name: wager.casino_name, detail: wager.game_played })
+  );
+}
+
+export async function planTransactionMerge(admin: SupabaseClient, sheet: string, userId: string, transactions: TransactionRecord[]) {
+  const stored = await fetchAllRows<StoredTransaction>(
+    admin,
+    'user_transactions',
+    'fingerprint, transaction_date, casino_name, type, amount_spent, redemption_request, after_playthrough_value, cc_points, tax_implications',
+    userId
+  );
+  return planMerge(
+    sheet,
+    transactions,
+    stored,
+    transactionIdentity,
+    transactionIdentity,
+    row => row.fingerprint,
+    transaction => ({ date: transaction.transaction_date, casino_name: transaction.casino_name, detail: transaction.type })
+  );
+}
+
+/**
+ * Fingerprints records for a full replace, so later merges can recognize them.
+ */
+export async function fingerprintWagers(wagers: WagerRecord[]) {
+  return (await fingerprintAll(wagers, wagerIdentity)).map(({ record, fingerprint }) => ({ ...record, fingerprint }));
+}
+
+export async function fingerprintTransactions(transactions: TransactionRecord[]) {
+  return (await fingerprintAll(transactions, transactionIdentity)).map(({ record, fingerprint }) => ({ ...record, fingerprint }));
+}
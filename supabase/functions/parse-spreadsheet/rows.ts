@@ -0,0 +1,205 @@
+// supabase/functions/parse-spreadsheet/rows.ts
+
+import { ColumnMapping } from "../_shared/spreadsheetColumns.ts";
+import { DateOrder, normalizeDate } from "./dates.ts";
+
+export interface WagerRecord {
+  user_id: string;
+  wager_date: string | null; // Store as ISO string or YYYY-MM-DD
+  casino_name: string | null;
+  game_played: string | null;
+  bet_size: number | null;
+  num_plays: number | null;
+  ending_balance: number | null;
+  total_wagered: number | null;
+  total_won: number | null;
+  net_result: number | null;
+  rtp: number | null;
+}
+
+export interface TransactionRecord {
+  user_id: string;
+  transaction_date: string | null; // Store as ISO string or YYYY-MM-DD
+  casino_name: string | null;
+  type: string | null;
+  amount_spent: number | null;
+  redemption_request: number | null;
+  after_playthrough_value: number | null;
+  cc_points: number | null;
+  tax_implications: number | null;
+}
+
+// A problem found in one row of the upload, reported back so the user can fix the workbook.
+// Either the whole row was left out of the import, or one cell was imported as blank.
+export interface ImportIssue {
+  sheet: string;
+  row: number; // 1-based row number as shown in the spreadsheet
+  column: string | null; // Header of the offending cell, null when no column is involved
+  value: unknown; // Raw cell value as read from the file
+  problem: string;
+  rowSkipped: boolean;
+}
+
+export interface ParsedSheet<T> {
+  records: T[];
+  issues: ImportIssue[];
+}
+
+// Helper to safely convert Excel value to number
+// Text cells (CSV is read as plain text) may carry currency symbols and thousands separators
+export function safeToNumber(value: any): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'string' ? Number(value.trim().replace(/^\$|,/g, '')) : Number(value);
+  return isNaN(num) ? null : num;
+}
+
+// Helper to safely convert Excel value to string
+export function safeToString(value: any): string | null {
+    if (value === null || value === undefined) return null;
+    return String(value).trim() || null; // Return null if empty string after trim
+}
+
+function isBlank(value: unknown): boolean {
+    return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+// sheet_to_json tags each row object with its 0-based sheet row index
+export function sheetRowNumber(row: Record<string, any>, index: number): number {
+    const rowNum = (row as { __rowNum__?: number }).__rowNum__;
+    return typeof rowNum === 'number' ? rowNum + 1 : index + 2; // +2: 1-based, after the header row
+}
+
+// Reads mapped cells from one row, recording conversion problems as field errors
+function createRowReader(
+    sheet: string,
+    rowNumber: number,
+    row: Record<string, any>,
+    mapping: ColumnMapping,
+    dateOrder: DateOrder,
+    issues: ImportIssue[]
+) {
+    const raw = (field: string): any => {
+        const header = mapping[field];
+        return header ? row[header] : null;
+    };
+    const report = (field: string, problem: string, rowSkipped: boolean) => {
+        issues.push({ sheet, row: rowNumber, column: mapping[field] ?? null, value: raw(field) ?? null, problem, rowSkipped });
+    };
+
+    return {
+        raw,
+        report,
+        text: (field: string): string | null => safeToString(raw(field)),
+        number: (field: string): number | null => {
+            const value = raw(field);
+            const num = safeToNumber(value);
+            if (num === null && !isBlank(value)) {
+                report(field, 'Not a number; imported as blank', false);
+            }
+            return num;
+        },
+        date: (field: string): string | null => normalizeDate(raw(field), dateOrder),
+    };
+}
+
+/**
+ * Normalizes the rows of the Wagers sheet.
+ * Rows without a readable date or a casino name are skipped; other unreadable cells
+ * become null. Both are reported as issues.
+ */
+export function parseWagerRows(
+    sheet: string,
+    rows: Record<string, any>[],
+    mapping: ColumnMapping,
+    dateOrder: DateOrder,
+    userId: string
+): ParsedSheet<WagerRecord> {
+    const result: ParsedSheet<WagerRecord> = { records: [], issues: [] };
+
+    rows.forEach((row, index) => {
+        if (!row || Object.values(row).every(isBlank)) return; // Skip empty rows
+
+        const rowNumber = sheetRowNumber(row, index);
+        const read = createRowReader(sheet, rowNumber, row, mapping, dateOrder, result.issues);
+
+        // Basic check: Ensure at least a date and casino name exist
+        if (isBlank(read.raw('wager_date'))) {
+            read.report('wager_date', 'Missing date; row skipped', true);
+            return;
+        }
+        if (isBlank(read.raw('casino_name'))) {
+            read.report('casino_name', 'Missing casino name; row skipped', true);
+            return;
+        }
+        const wagerDate = read.date('wager_date');
+        if (wagerDate === null) {
+            read.report('wager_date', 'Not a recognized date; row skipped', true);
+            return;
+        }
+
+        result.records.push({
+            user_id: userId,
+            wager_date: wagerDate,
+            casino_name: read.text('casino_name'),
+            game_played: read.text('game_played'),
+            bet_size: read.number('bet_size'),
+            num_plays: read.number('num_plays'),
+            ending_balance: read.number('ending_balance'),
+            total_wagered: read.number('total_wagered'),
+            total_won: read.number('total_won'),
+            net_result: read.number('net_result'),
+            rtp: read.number('rtp'),
+        });
+    });
+
+    return result;
+}
+
+/**
+ * Normalizes the rows of the Transactions sheet, with the same rules as parseWagerRows.
+ */
+export function parseTransactionRows(
+    sheet: string,
+    rows: Record<string, any>[],
+    mapping: ColumnMapping,
+    dateOrder: DateOrder,
+    userId: string
+): ParsedSheet<TransactionRecord> {
+    const result: ParsedSheet<TransactionRecord> = { records: [], issues: [] };
+
+    rows.forEach((row, index) => {
+        if (!row || Object.values(row).every(isBlank)) return;
+
+        const rowNumber = sheetRowNumber(row, index);
+        const read = createRowReader(sheet, rowNumber, row, mapping, dateOrder, result.issues);
+
+        // Basic check
+        if (isBlank(read.raw('transaction_date'))) {
+            read.report('transaction_date', 'Missing date; row skipped', true);
+            return;
+        }
+        if (isBlank(read.raw('casino_name'))) {
+            read.report('casino_name', 'Missing casino name; row skipped', true);
+            return;
+        }
+        const transactionDate = read.date('transaction_date');
+        if (transactionDate === null) {
+            read.report('transaction_date', 'Not a recognized date; row skipped', true);
+            return;
+        }
+
+        result.records.push({
+            user_id: userId,
+            transaction_date: transactionDate,
+            casino_name: read.text('casino_name'),
+            type: read.text('type'),
+            amount_spent: read.number('amount_spent'),
+            redemption_request: read.number('redemption_request'),
+            after_playthrough_value: read.number('after_playthrough_value'),
+            cc_points: read.number('cc_points'),
+            tax_implications: read.number('tax_implications'),
+        });
+    });
+
+    return result;
+}
@@ -0,0 +1,23 @@
+-- Column mapping confirmed by the user on the Upload Data page.
+-- Reused on later uploads so the mapping step is pre-filled.
+create table if not exists public.import_column_mappings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  wagers jsonb not null default '{}'::jsonb,
+  transactions jsonb not null default '{}'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.import_column_mappings enable row level security;
+
+create policy "Users can view their own column mapping"
+  on public.import_column_mappings for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own column mapping"
+  on public.import_column_mappings for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own column mapping"
+  on public.import_column_mappings for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,11 @@
+-- Stable per-row fingerprints written by parse-spreadsheet, so re-uploading the same
+-- workbook in merge mode only adds new rows. Fingerprints are never recomputed after
+-- import, which keeps rows edited in the app matched to their original sheet row.
+alter table public.user_wagers add column if not exists fingerprint text;
+alter table public.user_transactions add column if not exists fingerprint text;
+
+create unique index if not exists user_wagers_user_fingerprint_key
+  on public.user_wagers (user_id, fingerprint);
+
+create unique index if not exists user_transactions_user_fingerprint_key
+  on public.user_transactions (user_id, fingerprint);
@@ -0,0 +1,78 @@
+-- Writes one spreadsheet import in a single transaction. Called by the parse-spreadsheet
+-- edge function with the service role; if any statement fails, the whole call is rolled
+-- back and the user's previous wagers and transactions are left exactly as they were.
+create or replace function public.import_spreadsheet_rows(
+  p_user_id uuid,
+  p_replace boolean,
+  p_wagers jsonb,
+  p_transactions jsonb
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_wagers_inserted integer := 0;
+  v_transactions_inserted integer := 0;
+begin
+  if p_replace then
+    delete from public.user_wagers where user_id = p_user_id;
+    delete from public.user_transactions where user_id = p_user_id;
+  end if;
+
+  insert into public.user_wagers (
+    user_id, fingerprint, wager_date, casino_name, game_played, bet_size, num_plays,
+    ending_balance, total_wagered, total_won, net_result, rtp
+  )
+  select
+    p_user_id, w.fingerprint, w.wager_date, w.casino_name, w.game_played, w.bet_size, w.num_plays,
+    w.ending_balance, w.total_wagered, w.total_won, w.net_result, w.rtp
+  from jsonb_to_recordset(coalesce(p_wagers, '[]'::jsonb)) as w(
+    fingerprint text,
+    wager_date date,
+    casino_name text,
+    game_played text,
+    bet_size numeric,
+    num_plays numeric,
+    ending_balance numeric,
+    total_wagered numeric,
+    total_won numeric,
+    net_result numeric,
+    rtp numeric
+  )
+  -- A concurrent upload may have inserted the same row since the merge was planned
+  on conflict (user_id, fingerprint) do nothing;
+  get diagnostics v_wagers_inserted = row_count;
+
+  insert into public.user_transactions (
+    user_id, fingerprint, transaction_date, casino_name, type, amount_spent,
+    redemption_request, after_playthrough_value, cc_points, tax_implications
+  )
+  select
+    p_user_id, t.fingerprint, t.transaction_date, t.casino_name, t.type, t.amount_spent,
+    t.redemption_request, t.after_playthrough_value, t.cc_points, t.tax_implications
+  from jsonb_to_recordset(coalesce(p_transactions, '[]'::jsonb)) as t(
+    fingerprint text,
+    transaction_date date,
+    casino_name text,
+    type text,
+    amount_spent numeric,
+    redemption_request numeric,
+    after_playthrough_value numeric,
+    cc_points numeric,
+    tax_implications numeric
+  )
+  on conflict (user_id, fingerprint) do nothing;
+  get diagnostics v_transactions_inserted = row_count;
+
+  return jsonb_build_object(
+    'wagers_inserted', v_wagers_inserted,
+    'transactions_inserted', v_transactions_inserted
+  );
+end;
+$$;
+
+-- p_user_id is trusted input, so only the service role may call this
+revoke execute on function public.import_spreadsheet_rows(uuid, boolean, jsonb, jsonb) from public, anon, authenticated;
+grant execute on function public.import_spreadsheet_rows(uuid, boolean, jsonb, jsonb) to service_role;
@@ -0,0 +1,184 @@
+-- One row per parse-spreadsheet import. Imported wagers and transactions are tagged
+-- with their batch so a single upload can be traced and rolled back.
+create table if not exists public.import_batches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  uploader_email text,
+  file_name text not null,
+  file_size bigint not null,
+  file_hash text not null, -- SHA-256 of the uploaded file
+  import_mode text not null check (import_mode in ('merge', 'replace')),
+  wagers_inserted integer not null default 0,
+  transactions_inserted integer not null default 0,
+  rows_unchanged integer not null default 0,
+  rows_conflicting integer not null default 0,
+  rows_skipped integer not null default 0,
+  created_at timestamptz not null default now(),
+  rolled_back_at timestamptz
+);
+
+create index if not exists import_batches_user_created_idx
+  on public.import_batches (user_id, created_at desc);
+
+alter table public.import_batches enable row level security;
+
+create policy "Users can view their own import batches"
+  on public.import_batches for select
+  using (auth.uid() = user_id);
+
+alter table public.user_wagers
+  add column if not exists import_batch_id uuid references public.import_batches (id) on delete set null;
+alter table public.user_transactions
+  add column if not exists import_batch_id uuid references public.import_batches (id) on delete set null;
+
+create index if not exists user_wagers_import_batch_idx on public.user_wagers (import_batch_id);
+create index if not exists user_transactions_import_batch_idx on public.user_transactions (import_batch_id);
+
+-- Replaces the earlier signature: the batch is now recorded in the same transaction as its rows
+drop function if exists public.import_spreadsheet_rows(uuid, boolean, jsonb, jsonb);
+
+create or replace function public.import_spreadsheet_rows(
+  p_user_id uuid,
+  p_replace boolean,
+  p_batch jsonb,
+  p_wagers jsonb,
+  p_transactions jsonb
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_batch_id uuid;
+  v_wagers_inserted integer := 0;
+  v_transactions_inserted integer := 0;
+begin
+  insert into public.import_batches (
+    user_id, uploader_email, file_name, file_size, file_hash, import_mode,
+    rows_unchanged, rows_conflicting, rows_skipped
+  )
+  values (
+    p_user_id,
+    p_batch ->> 'uploader_email',
+    p_batch ->> 'file_name',
+    (p_batch ->> 'file_size')::bigint,
+    p_batch ->> 'file_hash',
+    case when p_replace then 'replace' else 'merge' end,
+    coalesce((p_batch ->> 'rows_unchanged')::integer, 0),
+    coalesce((p_batch ->> 'rows_conflicting')::integer, 0),
+    coalesce((p_batch ->> 'rows_skipped')::integer, 0)
+  )
+  returning id into v_batch_id;
+
+  if p_replace then
+    delete from public.user_wagers where user_id = p_user_id;
+    delete from public.user_transactions where user_id = p_user_id;
+  end if;
+
+  insert into public.user_wagers (
+    user_id, import_batch_id, fingerprint, wager_date, casino_name, game_played, bet_size, num_plays,
+    ending_balance, total_wagered, total_won, net_result, rtp
+  )
+  select
+    p_user_id, v_batch_id, w.fingerprint, w.wager_date, w.casino_name, w.game_played, w.bet_size, w.num_plays,
+    w.ending_balance, w.total_wagered, w.total_won, w.net_result, w.rtp
+  from jsonb_to_recordset(coalesce(p_wagers, '[]'::jsonb)) as w(
+    fingerprint text,
+    wager_date date,
+    casino_name text,
+    game_played text,
+    bet_size numeric,
+    num_plays numeric,
+    ending_balance numeric,
+    total_wagered numeric,
+    total_won numeric,
+    net_result numeric,
+    rtp numeric
+  )
+  -- A concurrent upload may have inserted the same row since the merge was planned
+  on conflict (user_id, fingerprint) do nothing;
+  get diagnostics v_wagers_inserted = row_count;
+
+  insert into public.user_transactions (
+    user_id, import_batch_id, fingerprint, transaction_date, casino_name, type, amount_spent,
+    redemption_request, after_playthrough_value, cc_points, tax_implications
+  )
+  select
+    p_user_id, v_batch_id, t.fingerprint, t.transaction_date, t.casino_name, t.type, t.amount_spent,
+    t.redemption_request, t.after_playthrough_value, t.cc_points, t.tax_implications
+  from jsonb_to_recordset(coalesce(p_transactions, '[]'::jsonb)) as t(
+    fingerprint text,
+    transaction_date date,
+    casino_name text,
+    type text,
+    amount_spent numeric,
+    redemption_request numeric,
+    after_playthrough_value numeric,
+    cc_points numeric,
+    tax_implications numeric
+  )
+  on conflict (user_id, fingerprint) do nothing;
+  get diagnostics v_transactions_inserted = row_count;
+
+  update public.import_batches
+  set wagers_inserted = v_wagers_inserted,
+      transactions_inserted = v_transactions_inserted
+  where id = v_batch_id;
+
+  return jsonb_build_object(
+    'batch_id', v_batch_id,
+    'wagers_inserted', v_wagers_inserted,
+    'transactions_inserted', v_transactions_inserted
+  );
+end;
+$$;
+
+-- p_user_id is trusted input, so only the service role may call this
+revoke execute on function public.import_spreadsheet_rows(uuid, boolean, jsonb, jsonb, jsonb) from public, anon, authenticated;
+grant execute on function public.import_spreadsheet_rows(uuid, boolean, jsonb, jsonb, jsonb) to service_role;
+
+-- Removes the rows a batch inserted and marks it rolled back. Called from the app by the
+-- batch owner. Rows removed by a 'replace' import cannot be brought back this way.
+create or replace function public.rollback_import_batch(p_batch_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+  v_rolled_back_at timestamptz;
+  v_wagers_deleted integer := 0;
+  v_transactions_deleted integer := 0;
+begin
+  select user_id, rolled_back_at into v_user_id, v_rolled_back_at
+  from public.import_batches
+  where id = p_batch_id
+  for update;
+
+  if v_user_id is null or v_user_id <> auth.uid() then
+    raise exception 'Import batch not found';
+  end if;
+
+  if v_rolled_back_at is not null then
+    raise exception 'Import batch has already been rolled back';
+  end if;
+
+  delete from public.user_wagers where import_batch_id = p_batch_id and user_id = v_user_id;
+  get diagnostics v_wagers_deleted = row_count;
+
+  delete from public.user_transactions where import_batch_id = p_batch_id and user_id = v_user_id;
+  get diagnostics v_transactions_deleted = row_count;
+
+  update public.import_batches set rolled_back_at = now() where id = p_batch_id;
+
+  return jsonb_build_object(
+    'wagers_deleted', v_wagers_deleted,
+    'transactions_deleted', v_transactions_deleted
+  );
+end;
+$$;
+
+revoke execute on function public.rollback_import_batch(uuid) from public, anon;
+grant execute on function public.rollback_import_batch(uuid) to authenticated;
@@ -0,0 +1,102 @@
+-- CSV uploads can hold just one record type. Replace mode now only clears the
+-- record types that are actually present in the upload.
+create or replace function public.import_spreadsheet_rows(
+  p_user_id uuid,
+  p_replace boolean,
+  p_batch jsonb,
+  p_wagers jsonb,
+  p_transactions jsonb
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_batch_id uuid;
+  v_wagers_inserted integer := 0;
+  v_transactions_inserted integer := 0;
+begin
+  insert into public.import_batches (
+    user_id, uploader_email, file_name, file_size, file_hash, import_mode,
+    rows_unchanged, rows_conflicting, rows_skipped
+  )
+  values (
+    p_user_id,
+    p_batch ->> 'uploader_email',
+    p_batch ->> 'file_name',
+    (p_batch ->> 'file_size')::bigint,
+    p_batch ->> 'file_hash',
+    case when p_replace then 'replace' else 'merge' end,
+    coalesce((p_batch ->> 'rows_unchanged')::integer, 0),
+    coalesce((p_batch ->> 'rows_conflicting')::integer, 0),
+    coalesce((p_batch ->> 'rows_skipped')::integer, 0)
+  )
+  returning id into v_batch_id;
+
+  -- A null array means that record type is not in the uploaded file (e.g. a CSV with
+  -- only wagers), so 'replace' keeps the stored rows of that type.
+  if p_replace and p_wagers is not null then
+    delete from public.user_wagers where user_id = p_user_id;
+  end if;
+  if p_replace and p_transactions is not null then
+    delete from public.user_transactions where user_id = p_user_id;
+  end if;
+
+  insert into public.user_wagers (
+    user_id, import_batch_id, fingerprint, wager_date, casino_name, game_played, bet_size, num_plays,
+    ending_balance, total_wagered, total_won, net_result, rtp
+  )
+  select
+    p_user_id, v_batch_id, w.fingerprint, w.wager_date, w.casino_name, w.game_played, w.bet_size, w.num_plays,
+    w.ending_balance, w.total_wagered, w.total_won, w.net_result, w.rtp
+  from jsonb_to_recordset(coalesce(p_wagers, '[]'::jsonb)) as w(
+    fingerprint text,
+    wager_date date,
+    casino_name text,
+    game_played text,
+    bet_size numeric,
+    num_plays numeric,
+    ending_balance numeric,
+    total_wagered numeric,
+    total_won numeric,
+    net_result numeric,
+    rtp numeric
+  )
+  -- A concurrent upload may have inserted the same row since the merge was planned
+  on conflict (user_id, fingerprint) do nothing;
+  get diagnostics v_wagers_inserted = row_count;
+
+  insert into public.user_transactions (
+    user_id, import_batch_id, fingerprint, transaction_date, casino_name, type, amount_spent,
+    redemption_request, after_playthrough_value, cc_points, tax_implications
+  )
+  select
+    p_user_id, v_batch_id, t.fingerprint, t.transaction_date, t.casino_name, t.type, t.amount_spent,
+    t.redemption_request, t.after_playthrough_value, t.cc_points, t.tax_implications
+  from jsonb_to_recordset(coalesce(p_transactions, '[]'::jsonb)) as t(
+    fingerprint text,
+    transaction_date date,
+    casino_name text,
+    type text,
+    amount_spent numeric,
+    redemption_request numeric,
+    after_playthrough_value numeric,
+    cc_points numeric,
+    tax_implications numeric
+  )
+  on conflict (user_id, fingerprint) do nothing;
+  get diagnostics v_transactions_inserted = row_count;
+
+  update public.import_batches
+  set wagers_inserted = v_wagers_inserted,
+      transactions_inserted = v_transactions_inserted
+  where id = v_batch_id;
+
+  return jsonb_build_object(
+    'batch_id', v_batch_id,
+    'wagers_inserted', v_wagers_inserted,
+    'transactions_inserted', v_transactions_inserted
+  );
+end;
+$$;
@@ -0,0 +1,9 @@
+-- Per-casino inputs for the calculator's next-collection and net reward math.
+-- The dashboard and the calculator both read the schedule from the tracked casino.
+alter table public.tracked_casinos add column if not exists bonus_value numeric;
+alter table public.tracked_casinos add column if not exists include_weekends boolean not null default true;
+
+-- The calculator remembers which tracked casino it was last pointed at
+alter table public.user_form_data add column if not exists tracked_casino_id uuid
+  references public.tracked_casinos (id) on delete set null;
+alter table public.user_form_data add column if not exists collection_interval_hours numeric;
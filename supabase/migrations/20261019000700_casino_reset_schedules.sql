@@ -0,0 +1,15 @@
+-- Fixed reset schedules as an alternative to the rolling collection interval.
+-- 'daily' resets every day at reset_time in reset_time_zone; 'weekly' only on reset_days
+-- (0 = Sunday). collection_interval_hours is only used by 'interval'.
+alter table public.tracked_casinos add column if not exists schedule_type text not null default 'interval';
+alter table public.tracked_casinos add column if not exists reset_time time;
+alter table public.tracked_casinos add column if not exists reset_time_zone text;
+alter table public.tracked_casinos add column if not exists reset_days smallint[];
+
+alter table public.tracked_casinos drop constraint if exists tracked_casinos_schedule_check;
+alter table public.tracked_casinos add constraint tracked_casinos_schedule_check check (
+  schedule_type in ('interval', 'daily', 'weekly')
+  and (schedule_type = 'interval' or reset_time is not null)
+  and (schedule_type <> 'weekly' or cardinality(reset_days) > 0)
+  and (reset_days is null or reset_days <@ array[0, 1, 2, 3, 4, 5, 6]::smallint[])
+);
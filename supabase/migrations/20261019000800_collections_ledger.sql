@@ -0,0 +1,71 @@
+-- One row per bonus claim, with what was collected. tracked_casinos.last_collected_at
+-- stays the schedule's source of truth and is stamped in the same transaction.
+create table if not exists public.collections (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  tracked_casino_id uuid not null references public.tracked_casinos (id) on delete cascade,
+  collected_at timestamptz not null default now(),
+  amount numeric not null check (amount >= 0),
+  currency text not null check (currency in ('SC', 'GC', 'USD')), -- Sweeps Coins, Gold Coins, cash
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists collections_user_collected_idx
+  on public.collections (user_id, collected_at desc);
+create index if not exists collections_casino_collected_idx
+  on public.collections (tracked_casino_id, collected_at desc);
+
+alter table public.collections enable row level security;
+
+create policy "Users can view their own collections"
+  on public.collections for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own collections"
+  on public.collections for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own collections"
+  on public.collections for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own collections"
+  on public.collections for delete
+  using (auth.uid() = user_id);
+
+-- Records a claim and stamps the casino's last collection time together.
+-- Runs as the caller, so RLS on both tables applies.
+create or replace function public.record_collection(
+  p_tracked_casino_id uuid,
+  p_amount numeric,
+  p_currency text,
+  p_note text default null
+)
+returns public.collections
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_collection public.collections;
+begin
+  update public.tracked_casinos
+  set last_collected_at = now()
+  where id = p_tracked_casino_id and user_id = auth.uid();
+
+  if not found then
+    raise exception 'Tracked casino not found';
+  end if;
+
+  insert into public.collections (user_id, tracked_casino_id, amount, currency, note)
+  values (auth.uid(), p_tracked_casino_id, p_amount, p_currency, nullif(trim(p_note), ''))
+  returning * into v_collection;
+
+  return v_collection;
+end;
+$$;
+
+revoke execute on function public.record_collection(uuid, numeric, text, text) from public, anon;
+grant execute on function public.record_collection(uuid, numeric, text, text) to authenticated;
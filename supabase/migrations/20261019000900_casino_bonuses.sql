@@ -0,0 +1,169 @@
+-- Bonuses offered by a tracked casino (daily login, wheel spins, mail-in requests...),
+-- each with its own schedule, expected value and collection history. They replace the
+-- schedule columns on tracked_casinos, which are moved into each casino's first bonus.
+create table if not exists public.casino_bonuses (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  tracked_casino_id uuid not null references public.tracked_casinos (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  collection_interval_hours numeric not null default 24 check (collection_interval_hours > 0),
+  bonus_value numeric check (bonus_value >= 0),
+  include_weekends boolean not null default true,
+  schedule_type text not null default 'interval',
+  reset_time time,
+  reset_time_zone text,
+  reset_days smallint[],
+  last_collected_at timestamptz,
+  created_at timestamptz not null default now(),
+  constraint casino_bonuses_schedule_check check (
+    schedule_type in ('interval', 'daily', 'weekly')
+    and (schedule_type = 'interval' or reset_time is not null)
+    and (schedule_type <> 'weekly' or cardinality(reset_days) > 0)
+    and (reset_days is null or reset_days <@ array[0, 1, 2, 3, 4, 5, 6]::smallint[])
+  )
+);
+
+create index if not exists casino_bonuses_casino_idx
+  on public.casino_bonuses (tracked_casino_id, created_at);
+
+alter table public.casino_bonuses enable row level security;
+
+create policy "Users can view their own casino bonuses"
+  on public.casino_bonuses for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own casino bonuses"
+  on public.casino_bonuses for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own casino bonuses"
+  on public.casino_bonuses for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own casino bonuses"
+  on public.casino_bonuses for delete
+  using (auth.uid() = user_id);
+
+-- Every existing casino becomes a casino with one bonus on its current schedule
+insert into public.casino_bonuses (
+  user_id, tracked_casino_id, name, collection_interval_hours, bonus_value, include_weekends,
+  schedule_type, reset_time, reset_time_zone, reset_days, last_collected_at, created_at
+)
+select
+  c.user_id, c.id, 'Daily Login', c.collection_interval_hours, c.bonus_value, c.include_weekends,
+  c.schedule_type, c.reset_time, c.reset_time_zone, c.reset_days, c.last_collected_at, c.created_at
+from public.tracked_casinos c
+where not exists (select 1 from public.casino_bonuses b where b.tracked_casino_id = c.id);
+
+-- The schedule now lives on the bonuses only
+alter table public.tracked_casinos
+  drop constraint if exists tracked_casinos_schedule_check,
+  drop column if exists collection_interval_hours,
+  drop column if exists bonus_value,
+  drop column if exists include_weekends,
+  drop column if exists schedule_type,
+  drop column if exists reset_time,
+  drop column if exists reset_time_zone,
+  drop column if exists reset_days;
+
+-- Collections and the calculator now point at a bonus
+alter table public.collections
+  add column if not exists bonus_id uuid references public.casino_bonuses (id) on delete set null;
+
+update public.collections col
+set bonus_id = b.id
+from public.casino_bonuses b
+where col.bonus_id is null and b.tracked_casino_id = col.tracked_casino_id;
+
+create index if not exists collections_bonus_collected_idx
+  on public.collections (bonus_id, collected_at desc);
+
+alter table public.user_form_data
+  add column if not exists casino_bonus_id uuid references public.casino_bonuses (id) on delete set null;
+
+update public.user_form_data f
+set casino_bonus_id = (
+  select b.id from public.casino_bonuses b
+  where b.tracked_casino_id = f.tracked_casino_id
+  order by b.created_at
+  limit 1
+)
+where f.casino_bonus_id is null and f.tracked_casino_id is not null;
+
+-- Collections are recorded per bonus. tracked_casinos.last_collected_at keeps the
+-- casino's most recent collection of any bonus.
+drop function if exists public.record_collection(uuid, numeric, text, text);
+
+create or replace function public.record_collection(
+  p_bonus_id uuid,
+  p_amount numeric,
+  p_currency text,
+  p_note text default null
+)
+returns public.collections
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_tracked_casino_id uuid;
+  v_collection public.collections;
+begin
+  update public.casino_bonuses
+  set last_collected_at = now()
+  where id = p_bonus_id and user_id = auth.uid()
+  returning tracked_casino_id into v_tracked_casino_id;
+
+  if not found then
+    raise exception 'Bonus not found';
+  end if;
+
+  update public.tracked_casinos
+  set last_collected_at = now()
+  where id = v_tracked_casino_id;
+
+  insert into public.collections (user_id, tracked_casino_id, bonus_id, amount, currency, note)
+  values (auth.uid(), v_tracked_casino_id, p_bonus_id, p_amount, p_currency, nullif(trim(p_note), ''))
+  returning * into v_collection;
+
+  return v_collection;
+end;
+$$;
+
+revoke execute on function public.record_collection(uuid, numeric, text, text) from public, anon;
+grant execute on function public.record_collection(uuid, numeric, text, text) to authenticated;
+
+-- Adds a casino together with its first bonus, so a casino is never left without
+-- anything to collect. p_casino and p_bonus hold tracked_casinos and casino_bonuses
+-- columns by name.
+create or replace function public.add_tracked_casino(p_casino jsonb, p_bonus jsonb)
+returns public.tracked_casinos
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_casino public.tracked_casinos := jsonb_populate_record(null::public.tracked_casinos, p_casino);
+  v_bonus public.casino_bonuses := jsonb_populate_record(null::public.casino_bonuses, p_bonus);
+begin
+  insert into public.tracked_casinos (user_id, casino_name, bonus_description)
+  values (auth.uid(), v_casino.casino_name, v_casino.bonus_description)
+  returning * into v_casino;
+
+  insert into public.casino_bonuses (
+    user_id, tracked_casino_id, name, collection_interval_hours, bonus_value, include_weekends,
+    schedule_type, reset_time, reset_time_zone, reset_days
+  )
+  values (
+    auth.uid(), v_casino.id, v_bonus.name, v_bonus.collection_interval_hours, v_bonus.bonus_value,
+    v_bonus.include_weekends, v_bonus.schedule_type, v_bonus.reset_time, v_bonus.reset_time_zone,
+    v_bonus.reset_days
+  );
+
+  return v_casino;
+end;
+$$;
+
+revoke execute on function public.add_tracked_casino(jsonb, jsonb) from public, anon;
+grant execute on function public.add_tracked_casino(jsonb, jsonb) to authenticated;
@@ -0,0 +1,117 @@
+-- Undoing a mistaken collection and recording one made earlier (e.g. on another device).
+-- previous_collected_at is the bonus's last collection time before this one, so an
+-- undo can put it back even when the earlier collection predates the ledger.
+alter table public.collections add column if not exists previous_collected_at timestamptz;
+
+-- Ties a "Collected ..." activity entry to its ledger row; undoing the collection removes it
+alter table public.activity_log add column if not exists related_collection_id uuid
+  references public.collections (id) on delete cascade;
+
+drop function if exists public.record_collection(uuid, numeric, text, text);
+
+-- Records a claim at p_collected_at (default now). A backdated claim only moves the
+-- bonus's and casino's last collection time forward, never back.
+create or replace function public.record_collection(
+  p_bonus_id uuid,
+  p_amount numeric,
+  p_currency text,
+  p_note text default null,
+  p_collected_at timestamptz default null
+)
+returns public.collections
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_collected_at timestamptz := coalesce(p_collected_at, now());
+  v_previous_collected_at timestamptz;
+  v_tracked_casino_id uuid;
+  v_collection public.collections;
+begin
+  -- A few minutes of slack for clocks that run ahead of the server's
+  if v_collected_at > now() + interval '5 minutes' then
+    raise exception 'Collection time cannot be in the future';
+  end if;
+
+  select last_collected_at, tracked_casino_id
+  into v_previous_collected_at, v_tracked_casino_id
+  from public.casino_bonuses
+  where id = p_bonus_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Bonus not found';
+  end if;
+
+  -- greatest() ignores nulls, so a never-collected bonus takes the new time
+  update public.casino_bonuses
+  set last_collected_at = greatest(last_collected_at, v_collected_at)
+  where id = p_bonus_id;
+
+  update public.tracked_casinos
+  set last_collected_at = greatest(last_collected_at, v_collected_at)
+  where id = v_tracked_casino_id;
+
+  insert into public.collections (
+    user_id, tracked_casino_id, bonus_id, collected_at, previous_collected_at, amount, currency, note
+  )
+  values (
+    auth.uid(), v_tracked_casino_id, p_bonus_id, v_collected_at, v_previous_collected_at,
+    p_amount, p_currency, nullif(trim(p_note), '')
+  )
+  returning * into v_collection;
+
+  return v_collection;
+end;
+$$;
+
+revoke execute on function public.record_collection(uuid, numeric, text, text, timestamptz) from public, anon;
+grant execute on function public.record_collection(uuid, numeric, text, text, timestamptz) to authenticated;
+
+-- Removes a claim from the ledger and rolls the bonus's and casino's last collection
+-- time back to what it would have been without it. Returns the removed row.
+create or replace function public.undo_collection(p_collection_id uuid)
+returns public.collections
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_collection public.collections;
+begin
+  delete from public.collections
+  where id = p_collection_id and user_id = auth.uid()
+  returning * into v_collection;
+
+  if not found then
+    raise exception 'Collection not found';
+  end if;
+
+  if v_collection.bonus_id is not null then
+    -- Later claims that followed this one now follow whatever came before it
+    update public.collections
+    set previous_collected_at = v_collection.previous_collected_at
+    where bonus_id = v_collection.bonus_id and previous_collected_at = v_collection.collected_at;
+
+    update public.casino_bonuses b
+    set last_collected_at = greatest(
+      v_collection.previous_collected_at,
+      (select max(c.collected_at) from public.collections c where c.bonus_id = b.id)
+    )
+    where b.id = v_collection.bonus_id;
+  end if;
+
+  update public.tracked_casinos
+  set last_collected_at = (
+    select max(b.last_collected_at) from public.casino_bonuses b
+    where b.tracked_casino_id = v_collection.tracked_casino_id
+  )
+  where id = v_collection.tracked_casino_id;
+
+  return v_collection;
+end;
+$$;
+
+revoke execute on function public.undo_collection(uuid) from public, anon;
+grant execute on function public.undo_collection(uuid) to authenticated;
@@ -0,0 +1,68 @@
+-- The casino's website, opened for each casino during a check-in session
+alter table public.tracked_casinos add column if not exists site_url text;
+
+-- New casinos can be added with their website
+create or replace function public.add_tracked_casino(p_casino jsonb, p_bonus jsonb)
+returns public.tracked_casinos
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_casino public.tracked_casinos := jsonb_populate_record(null::public.tracked_casinos, p_casino);
+  v_bonus public.casino_bonuses := jsonb_populate_record(null::public.casino_bonuses, p_bonus);
+begin
+  insert into public.tracked_casinos (user_id, casino_name, bonus_description, site_url)
+  values (auth.uid(), v_casino.casino_name, v_casino.bonus_description, v_casino.site_url)
+  returning * into v_casino;
+
+  insert into public.casino_bonuses (
+    user_id, tracked_casino_id, name, collection_interval_hours, bonus_value, include_weekends,
+    schedule_type, reset_time, reset_time_zone, reset_days
+  )
+  values (
+    auth.uid(), v_casino.id, v_bonus.name, v_bonus.collection_interval_hours, v_bonus.bonus_value,
+    v_bonus.include_weekends, v_bonus.schedule_type, v_bonus.reset_time, v_bonus.reset_time_zone,
+    v_bonus.reset_days
+  );
+
+  return v_casino;
+end;
+$$;
+
+revoke execute on function public.add_tracked_casino(jsonb, jsonb) from public, anon;
+grant execute on function public.add_tracked_casino(jsonb, jsonb) to authenticated;
+
+-- Records every claim made during a check-in session in one round trip and one
+-- transaction. p_collections is an array of
+-- { bonus_id, amount, currency, note?, collected_at? } objects.
+create or replace function public.record_collections(p_collections jsonb)
+returns setof public.collections
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_item jsonb;
+  v_collection public.collections;
+begin
+  if jsonb_typeof(p_collections) <> 'array' then
+    raise exception 'p_collections must be a JSON array';
+  end if;
+
+  for v_item in select * from jsonb_array_elements(p_collections)
+  loop
+    v_collection := public.record_collection(
+      (v_item ->> 'bonus_id')::uuid,
+      (v_item ->> 'amount')::numeric,
+      v_item ->> 'currency',
+      v_item ->> 'note',
+      (v_item ->> 'collected_at')::timestamptz
+    );
+    return next v_collection;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.record_collections(jsonb) from public, anon;
+grant execute on function public.record_collections(jsonb) to authenticated;
@@ -0,0 +1,9 @@
+-- Casinos are archived (closed, banned, no longer played) or moved to the trash instead
+-- of being deleted, so their bonuses, collections and activity history stay intact.
+-- Either timestamp hides the casino from the dashboard and calculator; clearing both restores it.
+alter table public.tracked_casinos add column if not exists archived_at timestamptz;
+alter table public.tracked_casinos add column if not exists deleted_at timestamptz;
+
+create index if not exists tracked_casinos_active_idx
+  on public.tracked_casinos (user_id)
+  where archived_at is null and deleted_at is null;
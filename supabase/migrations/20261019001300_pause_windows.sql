@@ -0,0 +1,34 @@
+-- Stretches of time in which tracking is paused (travel, a casino down for maintenance).
+-- A null tracked_casino_id pauses the whole account; a null ends_at pauses until resumed.
+-- Windows are kept after they end so streaks can skip the paused days.
+create table if not exists public.pause_windows (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  tracked_casino_id uuid references public.tracked_casinos (id) on delete cascade,
+  starts_at timestamptz not null default now(),
+  ends_at timestamptz,
+  created_at timestamptz not null default now(),
+  constraint pause_windows_range_check check (ends_at is null or ends_at > starts_at)
+);
+
+create index if not exists pause_windows_user_idx
+  on public.pause_windows (user_id, starts_at desc);
+
+alter table public.pause_windows enable row level security;
+
+create policy "Users can view their own pause windows"
+  on public.pause_windows for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own pause windows"
+  on public.pause_windows for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own pause windows"
+  on public.pause_windows for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own pause windows"
+  on public.pause_windows for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,79 @@
+-- Shared, read-only catalog of known casinos with their usual daily bonus, used to fill in
+-- AddCasino. Rows are keyed by a readable slug and loaded from supabase/seed/casino_catalog.json
+-- by `npm run seed:catalog`; users can read the catalog but never change it.
+create table if not exists public.casino_catalog (
+  id text primary key check (id ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name text not null check (length(trim(name)) > 0),
+  site_url text,
+  currency_types text[] not null default array['SC', 'GC']
+    check (currency_types <@ array['SC', 'GC', 'USD']),
+  bonus_name text not null default 'Daily Login',
+  collection_interval_hours numeric not null default 24 check (collection_interval_hours > 0),
+  bonus_value numeric check (bonus_value >= 0), -- Typical value of the daily bonus
+  include_weekends boolean not null default true,
+  schedule_type text not null default 'interval',
+  reset_time time,
+  reset_time_zone text,
+  reset_days smallint[],
+  updated_at timestamptz not null default now(),
+  constraint casino_catalog_schedule_check check (
+    schedule_type in ('interval', 'daily', 'weekly')
+    and (schedule_type = 'interval' or reset_time is not null)
+    and (schedule_type <> 'weekly' or cardinality(reset_days) > 0)
+    and (reset_days is null or reset_days <@ array[0, 1, 2, 3, 4, 5, 6]::smallint[])
+  )
+);
+
+create unique index if not exists casino_catalog_name_key
+  on public.casino_catalog (lower(name));
+
+alter table public.casino_catalog enable row level security;
+
+create policy "Signed-in users can view the casino catalog"
+  on public.casino_catalog for select
+  to authenticated
+  using (true);
+
+-- The catalog entry a tracked casino was created from. A user can track each catalog
+-- casino once, archived and deleted casinos included, just like casino names.
+alter table public.tracked_casinos
+  add column if not exists catalog_casino_id text references public.casino_catalog (id) on delete set null;
+
+create unique index if not exists tracked_casinos_user_catalog_key
+  on public.tracked_casinos (user_id, catalog_casino_id)
+  where catalog_casino_id is not null;
+
+-- New casinos remember the catalog entry they were created from
+create or replace function public.add_tracked_casino(p_casino jsonb, p_bonus jsonb)
+returns public.tracked_casinos
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_casino public.tracked_casinos := jsonb_populate_record(null::public.tracked_casinos, p_casino);
+  v_bonus public.casino_bonuses := jsonb_populate_record(null::public.casino_bonuses, p_bonus);
+begin
+  insert into public.tracked_casinos (user_id, casino_name, bonus_description, site_url, catalog_casino_id)
+  values (
+    auth.uid(), v_casino.casino_name, v_casino.bonus_description, v_casino.site_url,
+    v_casino.catalog_casino_id
+  )
+  returning * into v_casino;
+
+  insert into public.casino_bonuses (
+    user_id, tracked_casino_id, name, collection_interval_hours, bonus_value, include_weekends,
+    schedule_type, reset_time, reset_time_zone, reset_days
+  )
+  values (
+    auth.uid(), v_casino.id, v_bonus.name, v_bonus.collection_interval_hours, v_bonus.bonus_value,
+    v_bonus.include_weekends, v_bonus.schedule_type, v_bonus.reset_time, v_bonus.reset_time_zone,
+    v_bonus.reset_days
+  );
+
+  return v_casino;
+end;
+$$;
+
+revoke execute on function public.add_tracked_casino(jsonb, jsonb) from public, anon;
+grant execute on function public.add_tracked_casino(jsonb, jsonb) to authenticated;
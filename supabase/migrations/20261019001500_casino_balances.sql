@@ -0,0 +1,55 @@
+-- Changes to a casino's Sweeps Coins and Gold Coins balances other than collections:
+-- purchases, wager results, redemptions and manual corrections. A purchase or redemption
+-- can also record the cash that changed hands.
+create table if not exists public.balance_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  tracked_casino_id uuid not null references public.tracked_casinos (id) on delete cascade,
+  kind text not null check (kind in ('purchase', 'wager', 'redemption', 'adjustment')),
+  sc_delta numeric not null default 0,
+  gc_delta numeric not null default 0,
+  usd_amount numeric check (usd_amount >= 0), -- Paid for a purchase, received for a redemption
+  note text,
+  occurred_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  constraint balance_entries_change_check check (sc_delta <> 0 or gc_delta <> 0 or usd_amount > 0)
+);
+
+create index if not exists balance_entries_casino_occurred_idx
+  on public.balance_entries (tracked_casino_id, occurred_at desc);
+
+alter table public.balance_entries enable row level security;
+
+create policy "Users can view their own balance entries"
+  on public.balance_entries for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own balance entries"
+  on public.balance_entries for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own balance entries"
+  on public.balance_entries for delete
+  using (auth.uid() = user_id);
+
+-- Current balance of each currency per casino: collected coins plus every other change.
+-- security_invoker keeps RLS on the underlying tables in force for the caller.
+create or replace view public.casino_balances
+with (security_invoker = true) as
+select
+  tracked_casino_id,
+  sum(sc) as sc_balance,
+  sum(gc) as gc_balance
+from (
+  select
+    tracked_casino_id,
+    case when currency = 'SC' then amount else 0 end as sc,
+    case when currency = 'GC' then amount else 0 end as gc
+  from public.collections
+  union all
+  select tracked_casino_id, sc_delta, gc_delta
+  from public.balance_entries
+) as changes
+group by tracked_casino_id;
+
+grant select on public.casino_balances to authenticated;
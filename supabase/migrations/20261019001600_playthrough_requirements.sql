@@ -0,0 +1,105 @@
+-- Sweeps Coins from a bonus or purchase often have to be wagered a number of times before
+-- they can be redeemed. The multiplier is stored with the coins it applies to; the amount
+-- still to wager is worked out from imported wagers (see src/lib/playthrough.ts).
+alter table public.collections add column if not exists playthrough_multiplier numeric
+  check (playthrough_multiplier > 0);
+
+alter table public.balance_entries add column if not exists playthrough_multiplier numeric
+  check (playthrough_multiplier > 0);
+
+alter table public.balance_entries drop constraint if exists balance_entries_playthrough_check;
+alter table public.balance_entries add constraint balance_entries_playthrough_check
+  check (playthrough_multiplier is null or kind = 'purchase');
+
+drop function if exists public.record_collection(uuid, numeric, text, text, timestamptz);
+
+-- Same as before, plus the playthrough multiplier of the collected coins
+create or replace function public.record_collection(
+  p_bonus_id uuid,
+  p_amount numeric,
+  p_currency text,
+  p_note text default null,
+  p_collected_at timestamptz default null,
+  p_playthrough_multiplier numeric default null
+)
+returns public.collections
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_collected_at timestamptz := coalesce(p_collected_at, now());
+  v_previous_collected_at timestamptz;
+  v_tracked_casino_id uuid;
+  v_collection public.collections;
+begin
+  -- A few minutes of slack for clocks that run ahead of the server's
+  if v_collected_at > now() + interval '5 minutes' then
+    raise exception 'Collection time cannot be in the future';
+  end if;
+
+  select last_collected_at, tracked_casino_id
+  into v_previous_collected_at, v_tracked_casino_id
+  from public.casino_bonuses
+  where id = p_bonus_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Bonus not found';
+  end if;
+
+  -- greatest() ignores nulls, so a never-collected bonus takes the new time
+  update public.casino_bonuses
+  set last_collected_at = greatest(last_collected_at, v_collected_at)
+  where id = p_bonus_id;
+
+  update public.tracked_casinos
+  set last_collected_at = greatest(last_collected_at, v_collected_at)
+  where id = v_tracked_casino_id;
+
+  insert into public.collections (
+    user_id, tracked_casino_id, bonus_id, collected_at, previous_collected_at, amount, currency, note,
+    playthrough_multiplier
+  )
+  values (
+    auth.uid(), v_tracked_casino_id, p_bonus_id, v_collected_at, v_previous_collected_at,
+    p_amount, p_currency, nullif(trim(p_note), ''), p_playthrough_multiplier
+  )
+  returning * into v_collection;
+
+  return v_collection;
+end;
+$$;
+
+revoke execute on function public.record_collection(uuid, numeric, text, text, timestamptz, numeric) from public, anon;
+grant execute on function public.record_collection(uuid, numeric, text, text, timestamptz, numeric) to authenticated;
+
+-- p_collections items may now carry playthrough_multiplier as well
+create or replace function public.record_collections(p_collections jsonb)
+returns setof public.collections
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_item jsonb;
+  v_collection public.collections;
+begin
+  if jsonb_typeof(p_collections) <> 'array' then
+    raise exception 'p_collections must be a JSON array';
+  end if;
+
+  for v_item in select * from jsonb_array_elements(p_collections)
+  loop
+    v_collection := public.record_collection(
+      (v_item ->> 'bonus_id')::uuid,
+      (v_item ->> 'amount')::numeric,
+      v_item ->> 'currency',
+      v_item ->> 'note',
+      (v_item ->> 'collected_at')::timestamptz,
+      (v_item ->> 'playthrough_multiplier')::numeric
+    );
+    return next v_collection;
+  end loop;
+end;
+$$;
@@ -0,0 +1,155 @@
+-- The smallest Sweeps Coins redemption the casino accepts; null when unknown
+alter table public.tracked_casinos add column if not exists min_redemption numeric
+  check (min_redemption >= 0);
+
+-- New casinos can be added with their minimum redemption
+create or replace function public.add_tracked_casino(p_casino jsonb, p_bonus jsonb)
+returns public.tracked_casinos
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_casino public.tracked_casinos := jsonb_populate_record(null::public.tracked_casinos, p_casino);
+  v_bonus public.casino_bonuses := jsonb_populate_record(null::public.casino_bonuses, p_bonus);
+begin
+  insert into public.tracked_casinos (
+    user_id, casino_name, bonus_description, site_url, catalog_casino_id, min_redemption
+  )
+  values (
+    auth.uid(), v_casino.casino_name, v_casino.bonus_description, v_casino.site_url,
+    v_casino.catalog_casino_id, v_casino.min_redemption
+  )
+  returning * into v_casino;
+
+  insert into public.casino_bonuses (
+    user_id, tracked_casino_id, name, collection_interval_hours, bonus_value, include_weekends,
+    schedule_type, reset_time, reset_time_zone, reset_days
+  )
+  values (
+    auth.uid(), v_casino.id, v_bonus.name, v_bonus.collection_interval_hours, v_bonus.bonus_value,
+    v_bonus.include_weekends, v_bonus.schedule_type, v_bonus.reset_time, v_bonus.reset_time_zone,
+    v_bonus.reset_days
+  );
+
+  return v_casino;
+end;
+$$;
+
+revoke execute on function public.add_tracked_casino(jsonb, jsonb) from public, anon;
+grant execute on function public.add_tracked_casino(jsonb, jsonb) to authenticated;
+
+-- Cash-outs of Sweeps Coins and where each one is in the casino's process:
+-- requested -> pending (under review) -> approved -> paid, or rejected at any point.
+-- Each step stamps its time, so payout speed can be compared per casino.
+create table if not exists public.redemptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  tracked_casino_id uuid not null references public.tracked_casinos (id) on delete cascade,
+  amount numeric not null check (amount > 0), -- Sweeps Coins redeemed, worth $1 each
+  fee numeric not null default 0 check (fee >= 0), -- Dollars withheld by the casino or payout provider
+  payout_method text,
+  status text not null default 'requested'
+    check (status in ('requested', 'pending', 'approved', 'paid', 'rejected')),
+  requested_at timestamptz not null default now(),
+  pending_at timestamptz,
+  approved_at timestamptz,
+  paid_at timestamptz,
+  rejected_at timestamptz,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists redemptions_user_requested_idx
+  on public.redemptions (user_id, requested_at desc);
+
+alter table public.redemptions enable row level security;
+
+create policy "Users can view their own redemptions"
+  on public.redemptions for select
+  using (auth.uid() = user_id);
+
+-- No insert policy: redemptions are only created through request_redemption, which
+-- enforces the casino's minimum
+create policy "Users can update their own redemptions"
+  on public.redemptions for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Only the status and its timestamps change after the request, so the amount can't be
+-- edited below the minimum afterwards
+revoke update on public.redemptions from authenticated;
+grant update (status, pending_at, approved_at, paid_at, rejected_at) on public.redemptions to authenticated;
+
+create policy "Users can delete their own redemptions"
+  on public.redemptions for delete
+  using (auth.uid() = user_id);
+
+-- Requests a redemption, refusing amounts below the casino's minimum. Runs as the owner
+-- because clients can't insert redemptions directly; the casino must belong to the caller.
+create or replace function public.request_redemption(
+  p_tracked_casino_id uuid,
+  p_amount numeric,
+  p_payout_method text default null,
+  p_fee numeric default 0,
+  p_note text default null,
+  p_requested_at timestamptz default null
+)
+returns public.redemptions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_min_redemption numeric;
+  v_redemption public.redemptions;
+begin
+  select min_redemption into v_min_redemption
+  from public.tracked_casinos
+  where id = p_tracked_casino_id and user_id = auth.uid();
+
+  if not found then
+    raise exception 'Casino not found';
+  end if;
+
+  if v_min_redemption is not null and p_amount < v_min_redemption then
+    raise exception 'The minimum redemption at this casino is % SC', v_min_redemption;
+  end if;
+
+  insert into public.redemptions (user_id, tracked_casino_id, amount, fee, payout_method, requested_at, note)
+  values (
+    auth.uid(), p_tracked_casino_id, p_amount, coalesce(p_fee, 0), nullif(trim(p_payout_method), ''),
+    coalesce(p_requested_at, now()), nullif(trim(p_note), '')
+  )
+  returning * into v_redemption;
+
+  return v_redemption;
+end;
+$$;
+
+revoke execute on function public.request_redemption(uuid, numeric, text, numeric, text, timestamptz) from public, anon;
+grant execute on function public.request_redemption(uuid, numeric, text, numeric, text, timestamptz) to authenticated;
+
+-- Redeemed coins leave the casino balance as soon as they are requested, and come back
+-- if the redemption is rejected
+create or replace view public.casino_balances
+with (security_invoker = true) as
+select
+  tracked_casino_id,
+  sum(sc) as sc_balance,
+  sum(gc) as gc_balance
+from (
+  select
+    tracked_casino_id,
+    case when currency = 'SC' then amount else 0 end as sc,
+    case when currency = 'GC' then amount else 0 end as gc
+  from public.collections
+  union all
+  select tracked_casino_id, sc_delta, gc_delta
+  from public.balance_entries
+  union all
+  select tracked_casino_id, -amount, 0
+  from public.redemptions
+  where status <> 'rejected'
+) as changes
+group by tracked_casino_id;